@@ -9,14 +9,77 @@ import {DatabaseState, FinalTxInfo, HashAndHeight, HotBlock, HotTxInfo} from '@s
 import {TemplateMutation, TemplateRegistryTracker} from '@subsquid/typeorm-store/lib/templates'
 import {assertNotNull, def, maybeLast} from '@subsquid/util-internal'
 import assert from 'assert'
-import {DataSource, EntityManager} from 'typeorm'
+import {DataSource, EntityManager, EntityTarget} from 'typeorm'
 import {Store} from './store'
-import {StateManager} from './utils/stateManager'
+import {ChangeSet, ChangeTrackingMode, EntityHooks, StateManager} from './utils/stateManager'
+import {EntityLiteral} from './utils/misc'
+import {ChangeCollector, EntityChanges} from './utils/changeCollector'
+import {CacheLimits} from './utils/cacheMap'
+import {createHistoryTable, rollbackHistory} from './utils/history'
+import {JunctionTracker, rollbackLinks} from './utils/junction'
+import {KeyedChangeTracker, rollbackKeyedEntities} from './utils/keyedChanges'
+import {mapOutboxRecord, OutboxRecord, OutboxWriter, writeOutboxRollback} from './utils/outbox'
+import {ChangeRecordBuffer, ChangeRecorder} from './utils/recorder'
 import {createOrmConfig} from '@subsquid/typeorm-config'
 
 export {DatabaseTransactResult, TemplateMutation}
 
-export {IsolationLevel}
+export {IsolationLevel, EntityChanges, OutboxRecord}
+
+export interface CommitEvent {
+    /**
+     * Height of the first block processed in the transaction
+     */
+    from: number
+    /**
+     * Height of the last block processed in the transaction
+     */
+    to: number
+    head: HashAndHeight
+    /**
+     * Written entity ids by entity name
+     */
+    changes: Record<string, EntityChanges>
+}
+
+export interface RollbackEvent {
+    /**
+     * Rolled back unfinalized blocks, starting from the highest one
+     */
+    blocks: HashAndHeight[]
+}
+
+export interface DryRunEvent {
+    /**
+     * Height of the first block processed in the transaction
+     */
+    from: number
+    /**
+     * Height of the last block processed in the transaction
+     */
+    to: number
+    head: HashAndHeight
+    /**
+     * Change sets the store would have written, in the order of writing
+     */
+    changeSets: ChangeSet[]
+}
+
+interface TxContext {
+    changes: ChangeCollector
+    rolledBack: HashAndHeight[]
+    commit?: Omit<CommitEvent, 'changes'>
+    /**
+     * Chain head after the transaction
+     */
+    head?: HashAndHeight
+    dryRun?: ChangeSet[]
+    records?: ChangeRecordBuffer
+    /**
+     * Processor status written by the transaction
+     */
+    status?: HashAndHeight & {nonce: number}
+}
 
 export interface TypeormDatabaseOptions extends TypeormDatabaseOptions_ {
     /**
@@ -32,10 +95,108 @@ export interface TypeormDatabaseOptions extends TypeormDatabaseOptions_ {
     cacheEntities?: boolean
 
     /**
-     * If true, will reset the state on commit
+     * If true, will reset the state on commit.
+     * Otherwise entities stay cached for the next batch, and their changes are detected once they are read again.
      * @default true
      */
     resetOnCommit?: boolean
+
+    /**
+     * If true, large inserts and upserts will be written with `COPY FROM STDIN`
+     * (upserts go through a temporary staging table)
+     * @default false
+     */
+    useCopy?: boolean
+
+    /**
+     * Minimal number of rows in a change set to use `COPY`, smaller sets are written with `INSERT`
+     * @default 10000
+     */
+    copyThreshold?: number
+
+    /**
+     * Maximal number of rows per insert, upsert, update, delete or load query by entity name.
+     * By default, batch size is derived from the number of entity columns and the bind parameter limit.
+     */
+    batchSizes?: Record<string, number>
+
+    /**
+     * Maximal number of entities kept in the cache between batches, least recently used ones are evicted.
+     * Has no effect if `resetOnCommit` is true.
+     * @default unlimited
+     */
+    maxCacheSize?: number
+
+    /**
+     * Maximal number of entities kept in the cache between batches by entity name.
+     * Has no effect if `resetOnCommit` is true.
+     * @default unlimited
+     */
+    maxCacheSizes?: Record<string, number>
+
+    /**
+     * If true, every applied change is recorded into the `outbox` table of the status schema
+     * within the same transaction. Records are consumed with `readOutbox()` and `ackOutbox()`.
+     * @default false
+     */
+    useOutbox?: boolean
+
+    /**
+     * If true, outbox records of updates hold the list of changed properties
+     * @default false
+     */
+    outboxColumns?: boolean
+
+    /**
+     * If set, every committed transaction which processes or rolls back blocks sends a notification
+     * to the given channel with a JSON payload `{height, hash, rollback, entities}`,
+     * where `height` and `hash` are of the new chain head and `entities` are names of written entity types
+     */
+    notifyChannel?: string
+
+    /**
+     * Soft-deleted entity types, mapping entity name to its nullable marker property.
+     * Deletes set the property to the block height for numeric columns or to the block timestamp
+     * passed to `Store.setBlockHeight()` otherwise,
+     * and reads through `Store` exclude soft-deleted rows unless `withDeleted` is passed.
+     *
+     * Rows of soft-deleted entities are kept, so re-creating such an entity requires `track(e, {replace: true})`.
+     */
+    softDelete?: Record<string, string>
+
+    /**
+     * Names of entities whose row versions are recorded into `<table>_history` tables
+     * (created on connect if missing) for `Store.findAsOf()` and `Store.getAsOf()`.
+     *
+     * Versions are valid from the block set by `Store.setBlockHeight()` when they were written,
+     * or from the last block of the batch if the handler doesn't set it.
+     */
+    history?: string[]
+
+    /**
+     * How changes of entities read through `Store` are detected on sync.
+     * `accessors` makes the cost of sync proportional to assigned properties rather than to read entities,
+     * but in-place mutations of array, bytes and json values are not detected, assign a new value instead.
+     * Entities with embedded entities are compared as in `snapshot` mode.
+     * @default 'snapshot'
+     */
+    changeTracking?: ChangeTrackingMode
+
+    /**
+     * If true, change sets are reported to `onDryRun()` listeners instead of being written,
+     * and every transaction is rolled back, including the status update.
+     * The processed head is kept in memory, so the processor keeps going without changing the database.
+     * Implies `supportHotBlocks: false`.
+     * @default false
+     */
+    dryRun?: boolean
+
+    /**
+     * Receives serialized change sets of every committed transaction, e.g. `NdjsonRecorder`.
+     * Records are staged within the transaction and published after the commit,
+     * a failed publish stops the processor and is retried on connect.
+     */
+    recorder?: ChangeRecorder
 }
 
 const StateManagerSymbol = Symbol('StateManager')
@@ -46,6 +207,22 @@ export class TypeormDatabase {
     protected postponeWriteOperations: boolean
     protected cacheEntities: boolean
     protected resetOnCommit: boolean
+    protected copyThreshold?: number
+    protected batchSizes?: Record<string, number>
+    protected cacheLimits: CacheLimits
+    protected useOutbox: boolean
+    protected outboxColumns: boolean
+    protected notifyChannel?: string
+    protected softDelete: Record<string, string>
+    protected history: string[]
+    protected changeTracking?: ChangeTrackingMode
+    protected dryRun: boolean
+    protected dryRunHead?: HashAndHeight
+    protected recorder?: ChangeRecorder
+    protected hooks: [EntityTarget<any>, EntityHooks][] = []
+    protected commitListeners: Set<(event: CommitEvent) => void | Promise<void>> = new Set()
+    protected rollbackListeners: Set<(event: RollbackEvent) => void | Promise<void>> = new Set()
+    protected dryRunListeners: Set<(event: DryRunEvent) => void | Promise<void>> = new Set()
     protected con?: DataSource & {
         [StateManagerSymbol]?: StateManager
     }
@@ -60,17 +237,91 @@ export class TypeormDatabase {
         this.postponeWriteOperations = options?.postponeWriteOperations ?? true
         this.cacheEntities = options?.cacheEntities ?? true
         this.resetOnCommit = options?.resetOnCommit ?? true
-        this.supportsHotBlocks = options?.supportHotBlocks ?? true
+        this.copyThreshold = options?.useCopy ? options.copyThreshold ?? 10000 : undefined
+        this.batchSizes = options?.batchSizes
+        this.cacheLimits = {maxSize: options?.maxCacheSize, maxSizes: options?.maxCacheSizes}
+        this.useOutbox = options?.useOutbox ?? false
+        this.outboxColumns = options?.outboxColumns ?? false
+        this.notifyChannel = options?.notifyChannel
+        this.softDelete = options?.softDelete ?? {}
+        this.history = options?.history ?? []
+        this.changeTracking = options?.changeTracking
+        this.dryRun = options?.dryRun ?? false
+        this.recorder = options?.recorder
+        this.supportsHotBlocks = !this.dryRun && (options?.supportHotBlocks ?? true)
         this.projectDir = options?.projectDir || process.cwd()
     }
 
+    /**
+     * Registers lifecycle hooks invoked on sync for entities of the given type.
+     */
+    addHooks<E extends EntityLiteral>(target: EntityTarget<E>, hooks: EntityHooks<E>): void {
+        this.hooks.push([target, hooks])
+        this.con?.[StateManagerSymbol]?.addHooks(target, hooks)
+    }
+
+    /**
+     * Subscribes to changes written by committed transactions.
+     *
+     * @returns unsubscribe function
+     */
+    onCommit(listener: (event: CommitEvent) => void | Promise<void>): () => void {
+        this.commitListeners.add(listener)
+        return () => this.commitListeners.delete(listener)
+    }
+
+    /**
+     * Subscribes to rollbacks of unfinalized blocks. Events are emitted after the transaction is committed.
+     *
+     * @returns unsubscribe function
+     */
+    onRollback(listener: (event: RollbackEvent) => void | Promise<void>): () => void {
+        this.rollbackListeners.add(listener)
+        return () => this.rollbackListeners.delete(listener)
+    }
+
+    /**
+     * Subscribes to change sets of rolled back transactions in the `dryRun` mode.
+     *
+     * @returns unsubscribe function
+     */
+    onDryRun(listener: (event: DryRunEvent) => void | Promise<void>): () => void {
+        this.dryRunListeners.add(listener)
+        return () => this.dryRunListeners.delete(listener)
+    }
+
+    /**
+     * Reads unacknowledged outbox records in commit order.
+     */
+    async readOutbox(limit = 1000): Promise<OutboxRecord[]> {
+        let con = this.con
+        assert(con != null, 'not connected')
+        let rows: any[] = await con.query(
+            `SELECT id, block_height, entity, entity_id, change_type, columns FROM ${this.escapedSchema()}.outbox ` +
+                `ORDER BY id LIMIT $1`,
+            [limit]
+        )
+        return rows.map(mapOutboxRecord)
+    }
+
+    /**
+     * Acknowledges outbox records up to and including the given one, so they are not read again.
+     */
+    async ackOutbox(id: string): Promise<void> {
+        let con = this.con
+        assert(con != null, 'not connected')
+        await con.query(`DELETE FROM ${this.escapedSchema()}.outbox WHERE id <= $1`, [id])
+    }
+
     async connect(): Promise<DatabaseState> {
         assert(this.con == null, 'already connected')
 
         this.con = await this.initializeDataSource()
 
         try {
-            return await this.con.transaction('SERIALIZABLE', (em) => this.initTransaction(em))
+            let state = await this.con.transaction('SERIALIZABLE', (em) => this.initTransaction(em))
+            await this.recorder?.recover(state.nonce)
+            return state
         } catch (e: any) {
             await this.con.destroy().catch(() => {}) // ignore error
             this.con = undefined
@@ -117,6 +368,25 @@ export class TypeormDatabase {
                 `PRIMARY KEY (block_height, index)` +
                 `)`
         )
+        await em.query(
+            `CREATE TABLE IF NOT EXISTS ${schema}.hot_junction_log (` +
+                `id bigserial primary key, ` +
+                `block_height int4 not null references ${schema}.hot_block on delete cascade, ` +
+                `kind text not null, ` +
+                `junction text not null, ` +
+                `owner_id text not null, ` +
+                `inverse_id text not null` +
+                `)`
+        )
+        await em.query(
+            `CREATE TABLE IF NOT EXISTS ${schema}.hot_entity_log (` +
+                `id bigserial primary key, ` +
+                `block_height int4 not null references ${schema}.hot_block on delete cascade, ` +
+                `entity text not null, ` +
+                `entity_key jsonb not null, ` +
+                `data jsonb` +
+                `)`
+        )
         await em.query(
             `CREATE TABLE IF NOT EXISTS ${schema}.template_registry (` +
                 `key text not null, ` +
@@ -128,6 +398,23 @@ export class TypeormDatabase {
                 `)`
         )
 
+        if (this.useOutbox) {
+            await em.query(
+                `CREATE TABLE IF NOT EXISTS ${schema}.outbox (` +
+                    `id bigserial primary key, ` +
+                    `block_height int4 not null, ` +
+                    `entity text, ` +
+                    `entity_id text, ` +
+                    `change_type text not null, ` +
+                    `columns text[]` +
+                    `)`
+            )
+        }
+
+        for (let entity of this.history) {
+            await createHistoryTable(em, em.connection.getMetadata(entity))
+        }
+
         let status: (HashAndHeight & {nonce: number})[] = await em.query(
             `SELECT height, hash, nonce FROM ${schema}.status WHERE id = 0`
         )
@@ -166,6 +453,11 @@ export class TypeormDatabase {
 
         assert(status.length == 1)
 
+        if (this.dryRunHead != null) {
+            // blocks processed by previous dry runs were never written
+            return {...status[0], ...this.dryRunHead, top: [], templates: []}
+        }
+
         let rawTop: HashAndHeight[] = await em.query(`SELECT hash, height FROM ${schema}.hot_block ORDER BY height`)
         let top: HotBlock[] = rawTop.map(b => ({...b, templates: []}))
 
@@ -173,7 +465,7 @@ export class TypeormDatabase {
     }
 
     transact(info: FinalTxInfo, cb: (store: Store) => Promise<DatabaseTransactResult | void>): Promise<void> {
-        return this.submit(async (em) => {
+        return this.submit(async (em, ctx) => {
             let state = await this.getState(em)
             let {prevHead: prev, nextHead: next} = info
 
@@ -184,12 +476,21 @@ export class TypeormDatabase {
 
             for (let i = state.top.length - 1; i >= 0; i--) {
                 let block = state.top[i]
-                await rollbackBlock(this.statusSchema, em, block.height)
+                await this.rollbackBlock(em, block, i > 0 ? state.top[i - 1] : state, ctx)
             }
 
-            await this.performUpdates(cb, em, new TemplateRegistryTracker(em, this.statusSchema, next.height))
+            await this.performUpdates(
+                cb,
+                em,
+                new TemplateRegistryTracker(em, this.statusSchema, next.height),
+                ctx,
+                next.height
+            )
 
-            await this.updateStatus(em, state.nonce, next)
+            await this.updateStatus(em, state.nonce, next, ctx)
+
+            ctx.commit = {from: prev.height + 1, to: next.height, head: next}
+            ctx.head = next
         })
     }
 
@@ -199,6 +500,7 @@ export class TypeormDatabase {
     ): Promise<void> {
         return this.transactHot2(info, async (store, sliceBeg, sliceEnd) => {
             for (let i = sliceBeg; i < sliceEnd; i++) {
+                await store.setBlockHeight(info.newBlocks[i].height)
                 await cb(store, info.newBlocks[i])
             }
         })
@@ -208,7 +510,7 @@ export class TypeormDatabase {
         info: HotTxInfo,
         cb: (store: Store, sliceBeg: number, sliceEnd: number) => Promise<DatabaseTransactResult | void>
     ): Promise<void> {
-        return this.submit(async (em) => {
+        return this.submit(async (em, ctx) => {
             let state = await this.getState(em)
             let chain: HashAndHeight[] = [state, ...state.top]
 
@@ -225,7 +527,7 @@ export class TypeormDatabase {
             let rollbackPos = baseHeadPos + 1
 
             for (let i = chain.length - 1; i >= rollbackPos; i--) {
-                await rollbackBlock(this.statusSchema, em, chain[i].height)
+                await this.rollbackBlock(em, chain[i], chain[i - 1], ctx)
             }
 
             if (info.newBlocks.length) {
@@ -237,7 +539,9 @@ export class TypeormDatabase {
                     await this.performUpdates(
                         async (store) => cb(store, 0, unfinalizedStart),
                         em,
-                        new TemplateRegistryTracker(em, this.statusSchema, info.finalizedHead.height)
+                        new TemplateRegistryTracker(em, this.statusSchema, info.finalizedHead.height),
+                        ctx,
+                        info.newBlocks[unfinalizedStart - 1].height
                     )
                 }
                 if (unfinalizedStart < info.newBlocks.length) {
@@ -252,7 +556,9 @@ export class TypeormDatabase {
                             async (store) => cb(store, i, sliceEnd),
                             em,
                             new TemplateRegistryTracker(em, this.statusSchema, lastBlock.height),
-                            new ChangeTracker(em, this.statusSchema, lastBlock.height)
+                            ctx,
+                            lastBlock.height,
+                            true
                         )
                     }
                 }
@@ -262,12 +568,47 @@ export class TypeormDatabase {
 
             await this.deleteHotBlocks(em, info.finalizedHead.height)
 
-            await this.updateStatus(em, state.nonce, info.finalizedHead)
+            await this.updateStatus(em, state.nonce, info.finalizedHead, ctx)
+
+            let head = maybeLast(info.newBlocks)
+            if (head != null) {
+                ctx.commit = {from: info.newBlocks[0].height, to: head.height, head}
+            }
+            ctx.head = maybeLast(chain)
         })
     }
 
-    private deleteHotBlocks(em: EntityManager, finalizedHeight: number): Promise<void> {
-        return em.query(`DELETE FROM ${this.escapedSchema()}.hot_block WHERE height <= $1`, [finalizedHeight])
+    private async deleteHotBlocks(em: EntityManager, finalizedHeight: number): Promise<void> {
+        await em.query(`DELETE FROM ${this.escapedSchema()}.hot_block WHERE height <= $1`, [finalizedHeight])
+        this.getStateManager().finalizeBlocks(finalizedHeight)
+    }
+
+    /**
+     * Reverts changes of the hot block. Changes of a group of blocks are recorded under its last block,
+     * while history versions hold heights of the blocks they were written at, down to the parent.
+     */
+    private async rollbackBlock(
+        em: EntityManager,
+        block: HashAndHeight,
+        parent: HashAndHeight,
+        ctx: TxContext
+    ): Promise<void> {
+        // links are reverted around entity changes, as they reference the linked entities
+        let restoreLinks = await rollbackLinks(em, this.statusSchema, block.height)
+        let restoreEntities = await rollbackKeyedEntities(em, this.statusSchema, block.height)
+        await rollbackBlock(this.statusSchema, em, block.height)
+        await restoreEntities()
+        await restoreLinks()
+        // cached entities might hold values written in the rolled back block
+        this.getStateManager().rollbackBlock(block.height)
+        for (let entity of this.history) {
+            await rollbackHistory(em, em.connection.getMetadata(entity), parent.height + 1)
+        }
+        if (this.useOutbox) {
+            await writeOutboxRollback(em, this.statusSchema, block.height)
+        }
+        ctx.records?.addRollback(parent.height + 1)
+        ctx.rolledBack.push(block)
     }
 
     private insertHotBlock(em: EntityManager, block: HashAndHeight): Promise<void> {
@@ -277,7 +618,7 @@ export class TypeormDatabase {
         ])
     }
 
-    private async updateStatus(em: EntityManager, nonce: number, next: HashAndHeight): Promise<void> {
+    private async updateStatus(em: EntityManager, nonce: number, next: HashAndHeight, ctx: TxContext): Promise<void> {
         let schema = this.escapedSchema()
 
         let result: [data: any[], rowsChanged: number] = await em.query(
@@ -290,23 +631,37 @@ export class TypeormDatabase {
         // Will never happen if isolation level is SERIALIZABLE or REPEATABLE_READ,
         // but occasionally people use multiprocessor setups and READ_COMMITTED.
         assert.strictEqual(rowsChanged, 1, RACE_MSG)
+        ctx.status = {...next, nonce: nonce + 1}
     }
 
     private async performUpdates(
         cb: (store: Store) => Promise<DatabaseTransactResult | void>,
         em: EntityManager,
         templateRegistry: TemplateRegistryTracker,
-        changeWriter?: ChangeTracker
+        ctx: TxContext,
+        blockHeight: number,
+        isHot = false
     ): Promise<void> {
+        let state = this.getStateManager()
         let store = new Store({
             em,
-            state: this.getStateManager(),
+            state,
             logger: this.getLogger().child('store'),
-            changes: changeWriter,
+            changes: isHot ? new ChangeTracker(em, this.statusSchema, blockHeight) : undefined,
             postponeWriteOperations: this.postponeWriteOperations,
             cacheEntities: this.cacheEntities,
+            copyThreshold: this.copyThreshold,
+            batchSizes: this.batchSizes,
+            collector: ctx.changes,
+            outbox: this.useOutbox ? new OutboxWriter(em, this.statusSchema, blockHeight, this.outboxColumns) : undefined,
+            blockHeight,
+            junctionChanges: isHot ? new JunctionTracker(em, this.statusSchema, blockHeight) : undefined,
+            keyedChanges: isHot ? new KeyedChangeTracker(em, this.statusSchema, blockHeight) : undefined,
+            dryRun: ctx.dryRun,
+            records: ctx.records,
         })
 
+        state.setHotBlock(isHot ? blockHeight : undefined)
         try {
             let result = await cb(store)
 
@@ -314,6 +669,7 @@ export class TypeormDatabase {
                 await store.flush()
             } else {
                 await store.sync()
+                state.commit()
             }
 
             if (result?.templates) {
@@ -323,18 +679,39 @@ export class TypeormDatabase {
             store.reset()
             throw e
         } finally {
+            state.setHotBlock(undefined)
             store['isClosed'] = true
         }
     }
 
-    private async submit(tx: (em: EntityManager) => Promise<void>): Promise<void> {
+    private async submit(tx: (em: EntityManager, ctx: TxContext) => Promise<void>): Promise<void> {
         let retries = 3
         while (true) {
+            let ctx: TxContext = {
+                changes: new ChangeCollector(),
+                rolledBack: [],
+                dryRun: this.dryRun ? [] : undefined,
+                records: this.recorder == null ? undefined : new ChangeRecordBuffer(),
+            }
             try {
                 let con = this.con
                 assert(con != null, 'not connected')
-                return await con.transaction(this.isolationLevel, tx)
+                if (this.dryRun) {
+                    await this.rolledBackTransaction(con, (em) => tx(em, ctx))
+                    // the cache holds changes which were never written
+                    con[StateManagerSymbol]?.reset()
+                    return await this.emitDryRun(ctx)
+                }
+                await con.transaction(this.isolationLevel, async (em) => {
+                    await tx(em, ctx)
+                    await this.notify(em, ctx)
+                    await this.stageRecords(ctx)
+                })
+                await this.recorder?.commit()
+                return await this.emitEvents(ctx)
             } catch (e: any) {
+                // the transaction is rolled back, while the cache might still hold its changes
+                this.con?.[StateManagerSymbol]?.reset()
                 if (e.code == '40001' && retries) {
                     retries -= 1
                 } else {
@@ -344,6 +721,75 @@ export class TypeormDatabase {
         }
     }
 
+    private async rolledBackTransaction(con: DataSource, tx: (em: EntityManager) => Promise<void>): Promise<void> {
+        let queryRunner = con.createQueryRunner()
+        try {
+            await queryRunner.startTransaction(this.isolationLevel)
+            await tx(queryRunner.manager)
+        } finally {
+            if (queryRunner.isTransactionActive) {
+                await queryRunner.rollbackTransaction()
+            }
+            await queryRunner.release()
+        }
+    }
+
+    private async notify(em: EntityManager, ctx: TxContext): Promise<void> {
+        if (this.notifyChannel == null) return
+        if (ctx.commit == null && ctx.rolledBack.length == 0) return
+        // notifications are delivered only when the transaction commits
+        let head = assertNotNull(ctx.head)
+        let payload = {
+            height: head.height,
+            hash: head.hash,
+            rollback: ctx.rolledBack.length > 0,
+            entities: ctx.changes.getEntityNames(),
+        }
+        await em.query(`SELECT pg_notify($1, $2)`, [this.notifyChannel, JSON.stringify(payload)])
+    }
+
+    private async stageRecords(ctx: TxContext): Promise<void> {
+        if (this.recorder == null) return
+        let status = assertNotNull(ctx.status)
+        let from = ctx.commit?.from ?? status.height
+        let to = ctx.commit?.to ?? status.height
+        let records = assertNotNull(ctx.records).getRecords(from, to, status.height)
+        await this.recorder.stage(records, status.nonce)
+    }
+
+    private async emitEvents(ctx: TxContext): Promise<void> {
+        if (ctx.rolledBack.length > 0) {
+            let event: RollbackEvent = {blocks: ctx.rolledBack}
+            for (let listener of this.rollbackListeners) {
+                await this.callListener(() => listener(event))
+            }
+        }
+        if (ctx.commit != null) {
+            let event: CommitEvent = {...ctx.commit, changes: ctx.changes.getChanges()}
+            for (let listener of this.commitListeners) {
+                await this.callListener(() => listener(event))
+            }
+        }
+    }
+
+    private async emitDryRun(ctx: TxContext): Promise<void> {
+        if (ctx.commit == null) return
+        this.dryRunHead = ctx.commit.head
+        let event: DryRunEvent = {...ctx.commit, changeSets: assertNotNull(ctx.dryRun)}
+        for (let listener of this.dryRunListeners) {
+            await this.callListener(() => listener(event))
+        }
+    }
+
+    private async callListener(cb: () => void | Promise<void>): Promise<void> {
+        try {
+            await cb()
+        } catch (err: any) {
+            // the transaction is already committed, so the error must not fail the processor
+            this.getLogger().error({err}, 'change event listener failed')
+        }
+    }
+
     private escapedSchema(): string {
         let con = assertNotNull(this.con)
         return con.driver.escape(this.statusSchema)
@@ -361,7 +807,18 @@ export class TypeormDatabase {
             stateManager = new StateManager({
                 connection,
                 logger: this.getLogger().child('state'),
+                cacheLimits: this.cacheLimits,
+                changeTracking: this.changeTracking,
             })
+            for (let [target, hooks] of this.hooks) {
+                stateManager.addHooks(target, hooks)
+            }
+            for (let [entity, property] of Object.entries(this.softDelete)) {
+                stateManager.setSoftDelete(entity, property)
+            }
+            for (let entity of this.history) {
+                stateManager.setHistory(entity)
+            }
             connection[StateManagerSymbol] = stateManager
         }
 
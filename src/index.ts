@@ -4,14 +4,34 @@ export {
     TypeormDatabaseOptions,
     DatabaseTransactResult,
     TemplateMutation,
+    CommitEvent,
+    RollbackEvent,
+    DryRunEvent,
+    EntityChanges,
+    OutboxRecord,
 } from './database'
 export {
     EntityTarget,
     EntityLiteral,
     EntityLiteral as Entity,
+    EntityId,
+    DeleteOptions,
+    Deltas,
+    FindAsOfOptions,
+    FindIteratorOptions,
     FindManyOptions,
     FindOneOptions,
+    QueryOptions,
     Store,
     Store as StoreWithCache,
     TrackOptions,
+    GetOptions,
+    GetByOptions,
+    GetManyOptions,
+    UniqueWhere,
+    VersionConflictError,
 } from './store'
+export {StoreQueryBuilder} from './utils/queryBuilder'
+export {ChangeSet, ChangeTrackingMode, ChangeType, EntityHooks} from './utils/stateManager'
+export {ChangeRecord, ChangeRecorder, NdjsonRecorder} from './utils/recorder'
+export {replay} from './replay'
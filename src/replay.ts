@@ -0,0 +1,42 @@
+import {assertNotNull} from '@subsquid/util-internal'
+import {Readable} from 'stream'
+import {EntityManager} from 'typeorm'
+import {Store} from './store'
+import {StateManager} from './utils/stateManager'
+import {ChangeRecord, decodeChangeRecord, readChangeRecords} from './utils/recorder'
+
+/**
+ * Applies change records written by `NdjsonRecorder` in the recorded order,
+ * through the same write paths `Store` uses on sync. Entity hooks, history and outbox are bypassed.
+ *
+ * Changes of unfinalized blocks are held back until they are finalized or the recording ends,
+ * so those reverted by `rollback` records are skipped.
+ * Run it within a transaction to apply a recording atomically.
+ *
+ * @returns number of applied records
+ */
+export async function replay(em: EntityManager, input: string | Readable): Promise<number> {
+    const state = new StateManager({connection: em.connection})
+    let pending: ChangeRecord[] = []
+    let count = 0
+
+    const apply = async (finalized: number) => {
+        while (pending.length > 0 && pending[0].height <= finalized) {
+            const record = assertNotNull(pending.shift())
+            const store = new Store({em, state, postponeWriteOperations: true, cacheEntities: false, blockHeight: record.height})
+            await store.writeChangeSet(decodeChangeRecord(em, record))
+            count += 1
+        }
+    }
+
+    for await (const record of readChangeRecords(input)) {
+        if (record.type === 'rollback') {
+            pending = pending.filter((r) => r.height < record.height)
+        } else {
+            pending.push(record)
+        }
+        await apply(record.finalized)
+    }
+    await apply(Infinity)
+    return count
+}
@@ -1,27 +1,90 @@
 import {
+    And,
     EntityManager,
     EntityMetadata,
     EntityNotFoundError,
+    Equal,
+    FindOperator,
     FindOptionsOrder,
     FindOptionsRelations,
     FindOptionsWhere,
     In,
+    IsNull,
+    MoreThan,
 } from 'typeorm'
 import {EntityTarget} from 'typeorm/common/EntityTarget'
+import type {QueryDeepPartialEntity} from 'typeorm/query-builder/QueryPartialEntity'
 import {ChangeTracker} from '@subsquid/typeorm-store/lib/hot'
-import {ChangeType, StateManager} from './utils/stateManager'
+import {
+    ChangeSet,
+    ChangeType,
+    DeleteChangeSet,
+    IncrementChangeSet,
+    JunctionChangeSet,
+    StateManager,
+    UpdateChangeSet,
+} from './utils/stateManager'
 import {Logger} from '@subsquid/logger'
-import {EntityLiteral, noNull, splitIntoBatches} from './utils/misc'
+import {EntityLiteral, getBatchSize, noNull, splitIntoBatches} from './utils/misc'
 import type {ColumnMetadata} from 'typeorm/metadata/ColumnMetadata'
 import assert from 'assert'
 import {EntityClass} from '@subsquid/typeorm-store'
+import type {Entity as TrackedEntity} from '@subsquid/typeorm-store/lib/store'
 import {DeferList} from './utils/deferList'
 import {Mutex} from './utils/mutex'
+import {copyInsert, copyUpsert} from './utils/copy'
+import {ChangeCollector} from './utils/changeCollector'
+import {OutboxWriter} from './utils/outbox'
+import {StoreQueryBuilder} from './utils/queryBuilder'
+import {ChangeRecordBuffer} from './utils/recorder'
+import {
+    escapeTableName,
+    getColumnType,
+    getKeyCondition,
+    getPersistentValue,
+    getUpsertConflict,
+    getWrittenColumns,
+    isNumericColumn,
+} from './utils/sql'
+import {getHistoryTableName, writeHistory} from './utils/history'
+import {copyEntity, getSnapshotColumns} from './utils/cacheMap'
+import {deleteLinks, insertLinks, JunctionTracker} from './utils/junction'
+import {hasTextId, KeyedChangeTracker} from './utils/keyedChanges'
+import {
+    createFromKey,
+    EntityId,
+    getEntityKey,
+    getIdKey,
+    getKeyFromWhere,
+    getKeyOrder,
+    getKeySelect,
+    getKeysWhere,
+    getRowKey,
+} from './utils/entityKey'
+
+export {EntityTarget, EntityLiteral, EntityId}
+
+export interface GetOptions<E = any, I extends EntityId = EntityId> {
+    /**
+     * Primary key, values of all primary properties for composite keys
+     */
+    id: I
+    relations?: FindOptionsRelations<E>
+    cacheEntities?: boolean
+}
 
-export {EntityTarget, EntityLiteral}
+export interface GetManyOptions<E = any> {
+    relations?: FindOptionsRelations<E>
+    cacheEntities?: boolean
+}
 
-export interface GetOptions<E = any> {
-    id: string
+/**
+ * Values of columns that uniquely identify an entity.
+ */
+export type UniqueWhere<E = any> = {[P in keyof E]?: E[P]}
+
+export interface GetByOptions<E = any> {
+    by: UniqueWhere<E>
     relations?: FindOptionsRelations<E>
     cacheEntities?: boolean
 }
@@ -48,6 +111,10 @@ export interface FindOneOptions<Entity = any> {
      * Order, in which entities should be ordered.
      */
     order?: FindOptionsOrder<Entity>
+    /**
+     * Includes soft-deleted entities. Such queries do not cache returned entities.
+     */
+    withDeleted?: boolean
 
     cacheEntities?: boolean
 }
@@ -65,6 +132,49 @@ export interface FindManyOptions<Entity = any> extends FindOneOptions<Entity> {
     cacheEntities?: boolean
 }
 
+export interface FindIteratorOptions<Entity = any> {
+    /**
+     * Simple condition that should be applied to match entities.
+     */
+    where?: FindOptionsWhere<Entity>[] | FindOptionsWhere<Entity>
+    /**
+     * Indicates what relations of entity should be loaded (simplified left join form).
+     */
+    relations?: FindOptionsRelations<Entity>
+    /**
+     * Number of entities fetched by a single query.
+     * @default 1000
+     */
+    pageSize?: number
+    /**
+     * Includes soft-deleted entities. Such queries do not cache returned entities.
+     */
+    withDeleted?: boolean
+
+    cacheEntities?: boolean
+}
+
+export interface FindAsOfOptions<E = any> {
+    /**
+     * Equality conditions on entity properties, relations are matched by ids.
+     */
+    where?: {[P in keyof E]?: E[P] | string}
+    take?: number
+}
+
+/**
+ * Deltas of numeric entity properties.
+ */
+export type Deltas<E = any> = {[P in keyof E]?: number | bigint}
+
+export interface QueryOptions {
+    /**
+     * Entity types modified by the query. Their cached entities are dropped after execution,
+     * so references obtained earlier are not tracked anymore.
+     */
+    affects?: EntityTarget<any>[]
+}
+
 export interface StoreOptions {
     em: EntityManager
     state: StateManager
@@ -72,6 +182,54 @@ export interface StoreOptions {
     logger?: Logger
     postponeWriteOperations: boolean
     cacheEntities: boolean
+    /**
+     * Minimal number of rows for an insert or upsert to be written with `COPY FROM STDIN`.
+     * `COPY` is not used if not set.
+     */
+    copyThreshold?: number
+    /**
+     * Maximal number of rows per query by entity name.
+     * By default batches are as large as the bind parameter limit allows.
+     */
+    batchSizes?: Record<string, number>
+    /**
+     * Receives every applied change set
+     */
+    collector?: ChangeCollector
+    /**
+     * Records every applied change set into the outbox table
+     */
+    outbox?: OutboxWriter
+    /**
+     * Records junction table writes for rollback of unfinalized blocks
+     */
+    junctionChanges?: JunctionTracker
+    /**
+     * Records writes of entities with composite or non-text primary keys for rollback of unfinalized blocks
+     */
+    keyedChanges?: KeyedChangeTracker
+    /**
+     * Height of the last block of the batch. Until {@link Store.setBlockHeight} is called,
+     * it is the height of history versions and the marker value of soft deletes into numeric columns.
+     */
+    blockHeight?: number
+    /**
+     * If set, change sets are appended to the list instead of being written.
+     * Reads still go to the database, so queries don't see unwritten changes, while cached entities do.
+     */
+    dryRun?: ChangeSet[]
+    /**
+     * Serializes every applied change set for the `ChangeRecorder`
+     */
+    records?: ChangeRecordBuffer
+}
+
+export interface DeleteOptions {
+    /**
+     * Deletes dependent entities referencing the deleted ones through `OneToMany` relations, recursively.
+     * References of relations declared with `onDelete: 'SET NULL'` are set to `null` instead.
+     */
+    cascade?: boolean
 }
 
 export interface TrackOptions {
@@ -82,10 +240,27 @@ export interface TrackOptions {
      * When omitted or `false`, a plain `INSERT` is used. Passing a different object for an id that is already
      * in the cache will throw — use {@link Store.getOrCreate} or {@link Store.get} / {@link Store.find} to
      * obtain the canonical cached instance and mutate it in place.
+     *
+     * Upserts overwrite existing rows without checking their `@VersionColumn`,
+     * but versions of existing rows are incremented rather than overwritten.
      */
     replace?: boolean
 }
 
+/**
+ * Thrown on sync when rows of entities with a `@VersionColumn` were changed by someone else
+ * since the versions were read by the store.
+ */
+export class VersionConflictError extends Error {
+    constructor(
+        readonly entity: string,
+        readonly ids: string[]
+    ) {
+        super(`${entity} entities were modified concurrently: ${ids.join(', ')}`)
+        this.name = 'VersionConflictError'
+    }
+}
+
 /**
  * Restricted version of TypeORM entity manager for squid data handlers.
  */
@@ -98,6 +273,17 @@ export class Store {
 
     protected postponeWriteOperations: boolean
     protected cacheEntities: boolean
+    protected copyThreshold?: number
+    protected batchSizes?: Record<string, number>
+    protected collector?: ChangeCollector
+    protected outbox?: OutboxWriter
+    protected blockHeight?: number
+    protected blockTimestamp?: number
+    protected lastBlockHeight?: number
+    protected junctionChanges?: JunctionTracker
+    protected keyedChanges?: KeyedChangeTracker
+    protected dryRun?: ChangeSet[]
+    protected records?: ChangeRecordBuffer
 
     protected pendingSync: Mutex
     protected pendingLoad: Mutex
@@ -110,18 +296,40 @@ export class Store {
         this.state = state
         this.postponeWriteOperations = opts.postponeWriteOperations
         this.cacheEntities = opts.cacheEntities
+        this.copyThreshold = opts.copyThreshold
+        this.batchSizes = opts.batchSizes
+        this.collector = opts.collector
+        this.outbox = opts.outbox
+        this.blockHeight = opts.blockHeight
+        this.lastBlockHeight = opts.blockHeight
+        this.junctionChanges = opts.junctionChanges
+        this.keyedChanges = opts.keyedChanges
+        this.dryRun = opts.dryRun
+        this.records = opts.records
         this.defers = new DeferList(this.logger?.child('defer'))
         this.pendingSync = new Mutex()
         this.pendingLoad = new Mutex()
     }
 
-    defer<E extends EntityLiteral>(target: EntityTarget<E>, id: string): DeferredEntity<E>
-    defer<E extends EntityLiteral>(target: EntityTarget<E>, options: GetOptions<E>): DeferredEntity<E>
-    defer<E extends EntityLiteral>(target: EntityTarget<E>, idOrOptions: string | GetOptions<E>): DeferredEntity<E> {
+    defer<E extends EntityLiteral, I extends EntityId>(target: EntityTarget<E>, id: I): DeferredEntity<E, I>
+    defer<E extends EntityLiteral, I extends EntityId>(
+        target: EntityTarget<E>,
+        options: GetOptions<E, I>
+    ): DeferredEntity<E, I>
+    defer<E extends EntityLiteral>(target: EntityTarget<E>, options: GetByOptions<E>): DeferredEntity<E>
+    defer<E extends EntityLiteral, I extends EntityId>(
+        target: EntityTarget<E>,
+        idOrOptions: I | GetOptions<E, I> | GetByOptions<E>
+    ): DeferredEntity<E, I> {
         const md = this.getEntityMetadata(target)
 
-        const options = parseGetOptions(idOrOptions)
-        this.defers.add(md, options.id, options.relations)
+        if (typeof idOrOptions === 'object' && 'by' in idOrOptions) {
+            this.defers.addBy(md, idOrOptions.by as UniqueWhere<E>, idOrOptions.relations as FindOptionsRelations<E>)
+            return new DeferredEntity(target, idOrOptions as GetByOptions<E>, this)
+        }
+
+        const options = parseGetOptions(md, idOrOptions as I | GetOptions<E, I>)
+        this.defers.add(md, getIdKey(md, options.id), options.relations)
 
         return new DeferredEntity(target, options, this)
     }
@@ -137,15 +345,39 @@ export class Store {
             const defers = this.defers.values()
 
             for (const [metadata, data] of defers) {
-                if (data.ids.size == 0) continue
-                const ids = [...data.ids]
+                if (data.ids.size > 0) {
+                    const ids = [...data.ids]
+
+                    const batchSize = this.getBatchSize(metadata, metadata.primaryColumns.length)
+                    for (const batch of splitIntoBatches(ids, batchSize)) {
+                        await this.find<any>(metadata.target, {
+                            where: getKeysWhere(metadata, batch),
+                            relations: data.relations,
+                        })
+                    }
 
-                for (const batch of splitIntoBatches(ids, 30000)) {
-                    await this.find<any>(metadata.target, {where: {id: In(batch)}, relations: data.relations})
+                    for (const id of ids) {
+                        this.state.persist(metadata.target, id)
+                    }
                 }
 
-                for (const id of ids) {
-                    this.state.persist(metadata.target, id)
+                for (const lookups of data.by.values()) {
+                    const wheres = [...lookups.values()]
+                    const properties = Object.keys(wheres[0])
+
+                    const batchSize = this.getBatchSize(metadata, properties.length)
+                    for (const batch of splitIntoBatches(wheres, batchSize)) {
+                        // a single IN query for lookups by one column, OR of conditions otherwise
+                        const where =
+                            properties.length == 1 ? {[properties[0]]: In(batch.map((w) => w[properties[0]]))} : batch
+                        await this.find<any>(metadata.target, {where, relations: data.relations})
+                    }
+
+                    for (const where of wheres) {
+                        if (this.state.getBy(metadata.target, where) === undefined) {
+                            this.state.settleBy(metadata.target, where)
+                        }
+                    }
                 }
             }
 
@@ -159,7 +391,7 @@ export class Store {
      * Registers entities for the next sync. By default flushes as primitive SQL `INSERT` (duplicate keys in the DB error).
      *
      * Rows loaded via {@link get} / {@link find} / {@link findOne} are **touched**; if they differ from the baseline
-     * captured at load time, they are upserted automatically on the next sync (no `replace` needed).
+     * captured at load time, their changed columns are updated automatically on the next sync (no `replace` needed).
      *
      * Pass `{ replace: true }` to force SQL upsert (`INSERT … ON CONFLICT UPDATE`) and to allow replacing a
      * previously cached instance with the supplied object. Without `replace`, passing a different object for an
@@ -192,10 +424,10 @@ export class Store {
 
     private async _upsert(metadata: EntityMetadata, entities: EntityLiteral[]): Promise<void> {
         this.logger?.debug(`upsert ${entities.length} ${metadata.name} entities`)
-        await this.changes?.trackUpsert(metadata.target as EntityClass<any>, entities)
+        await this.getChangeTracker(metadata)?.trackUpsert(metadata.target as EntityClass<any>, entities as TrackedEntity[])
 
         let fk = metadata.columns.filter((c) => c.relationMetadata)
-        if (fk.length == 0) return this.upsertMany(metadata.target, entities)
+        if (fk.length == 0) return this.upsertMany(metadata, entities)
         const groups = new Map<bigint, EntityLiteral[]>()
         for (const e of entities) {
             const sig = this.getFkSignature(fk, e)
@@ -207,79 +439,588 @@ export class Store {
             group.push(e)
         }
         for (const group of groups.values()) {
-            await this.upsertMany(metadata.target, group)
+            await this.upsertMany(metadata, group)
+        }
+    }
+
+    private async upsertMany(metadata: EntityMetadata, entities: EntityLiteral[]) {
+        if (this.shouldUseCopy(entities)) {
+            const versions = await copyUpsert(this.em, metadata, entities)
+            if (versions != null) {
+                this.setVersions(metadata, entities, versions)
+            }
+            return
+        }
+        for (const batch of splitIntoBatches(entities, this.getBatchSize(metadata, metadata.columns.length))) {
+            if (metadata.versionColumn == null) {
+                await this.em.upsert(
+                    metadata.target,
+                    batch as any,
+                    metadata.primaryColumns.map((c) => c.propertyPath)
+                )
+            } else {
+                // resulting versions are returned into the entities by TypeORM
+                await this.em
+                    .createQueryBuilder()
+                    .insert()
+                    .into(metadata.target)
+                    .values(batch)
+                    .onConflict(getUpsertConflict(this.em, metadata, getWrittenColumns(metadata, batch)))
+                    .execute()
+            }
         }
     }
 
-    private async upsertMany(target: EntityTarget<any>, entities: EntityLiteral[]) {
-        for (const batch of splitIntoBatches(entities, 1000)) {
-            await this.em.upsert(target, batch as any, ['id'])
+    private setVersions(metadata: EntityMetadata, entities: EntityLiteral[], rows: Record<string, unknown>[]) {
+        const versionColumn = metadata.versionColumn!
+        const versions = new Map(rows.map((row) => [getRowKey(metadata, row), row[versionColumn.databaseName]]))
+        for (const e of entities) {
+            const version = versions.get(getEntityKey(metadata, e))
+            if (version == null) continue
+            versionColumn.setEntityValue(e, Number(version))
         }
     }
 
     private async _insert(metadata: EntityMetadata, entities: EntityLiteral[]) {
         this.logger?.debug(`insert ${entities.length} ${metadata.name} entities`)
-        await this.changes?.trackInsert(metadata.target as EntityClass<any>, entities)
-        await this.insertMany(metadata.target, entities)
+        await this.getChangeTracker(metadata)?.trackInsert(metadata.target as EntityClass<any>, entities as TrackedEntity[])
+        await this.insertMany(metadata, entities)
+    }
+
+    private async insertMany(metadata: EntityMetadata, entities: EntityLiteral[]) {
+        if (this.shouldUseCopy(entities)) {
+            return await copyInsert(this.em, metadata, entities)
+        }
+        for (const batch of splitIntoBatches(entities, this.getBatchSize(metadata, metadata.columns.length))) {
+            await this.em.insert(metadata.target, batch)
+        }
+    }
+
+    private shouldUseCopy(entities: EntityLiteral[]): boolean {
+        return this.copyThreshold != null && entities.length >= this.copyThreshold
+    }
+
+    private getBatchSize(metadata: EntityMetadata, paramsPerRow: number): number {
+        return getBatchSize(paramsPerRow, this.batchSizes?.[metadata.name])
     }
 
-    private async insertMany(target: EntityTarget<any>, entities: EntityLiteral[]) {
-        for (const batch of splitIntoBatches(entities, 1000)) {
-            await this.em.insert(target, batch)
+    private async _update(cs: UpdateChangeSet) {
+        this.logger?.debug(`update ${cs.entities.length} ${cs.metadata.name} entities`)
+        await this.getChangeTracker(cs.metadata)?.trackUpsert(
+            cs.metadata.target as EntityClass<any>,
+            cs.entities as TrackedEntity[]
+        )
+        if (cs.patch == null) {
+            await this.updateMany(cs.metadata, cs.entities, cs.columns, false, cs.versions)
+        } else {
+            // patches might hold raw SQL values, which only the query builder supports
+            const batchSize = this.getBatchSize(cs.metadata, cs.metadata.primaryColumns.length)
+            for (const batch of splitIntoBatches(cs.entities, batchSize)) {
+                await this.em.createQueryBuilder().update(cs.metadata.target).set(cs.patch).whereInIds(batch).execute()
+            }
         }
     }
 
+    private async _increment(cs: IncrementChangeSet) {
+        this.logger?.debug(`increment ${cs.ids.length} ${cs.metadata.name} entities`)
+        const entities = cs.ids.map((id, i) => {
+            const entity = createFromKey(cs.metadata, id)
+            cs.columns.forEach((c, j) => c.setEntityValue(entity, cs.deltas[i][j]))
+            return entity
+        })
+        await this.getChangeTracker(cs.metadata)?.trackUpsert(
+            cs.metadata.target as EntityClass<any>,
+            entities as TrackedEntity[]
+        )
+        await this.updateMany(cs.metadata, entities, cs.columns, true)
+    }
+
     /**
-     * Deletes a given entity or entities from the database.
+     * Updates only the given columns of existing rows with a single `UPDATE ... FROM (VALUES ...)` per batch.
+     * If `relative` is set, values are added to the current ones and all rows have to exist.
      *
-     * Executes a primitive DELETE query without cascades, relations, etc.
+     * The version column of versioned entities is incremented by every update.
+     * If `versions` are given, rows are only updated if their version is still the expected one,
+     * otherwise {@link VersionConflictError} is thrown.
      */
-    async delete<E extends EntityLiteral>(e: E | E[]): Promise<void>
-    async delete<E extends EntityLiteral>(target: EntityTarget<E>, id: string | string[]): Promise<void>
-    async delete<E extends EntityLiteral>(e: E | E[] | EntityTarget<E>, id?: string | string[]): Promise<void> {
-        return await this.performWrite(() => {
-            if (id == null) {
-                const entities = Array.isArray(e) ? e : [e as E]
-                if (entities.length == 0) return
+    private async updateMany(
+        metadata: EntityMetadata,
+        entities: EntityLiteral[],
+        columns: ColumnMetadata[],
+        relative?: boolean,
+        versions?: unknown[]
+    ) {
+        const driver = this.em.connection.driver
+        const versionColumn = metadata.versionColumn
+        const keyColumns = metadata.primaryColumns
+        const allColumns = [...keyColumns, ...columns.filter((c) => c !== versionColumn)]
+
+        const table = escapeTableName(this.em, metadata)
+        const types = allColumns.map((c) => getColumnType(this.em, metadata, c))
+        const names = allColumns.map((c) => driver.escape(c.databaseName))
+        const set = names
+            .slice(keyColumns.length)
+            .map((name) => (relative ? `${name} = COALESCE("t".${name}, 0) + "v".${name}` : `${name} = "v".${name}`))
+        const join = names.slice(0, keyColumns.length).map((name) => `"t".${name} = "v".${name}`)
+        const returning = names.slice(0, keyColumns.length).map((name) => `"t".${name}`)
+
+        let versionType: string | undefined
+        if (versionColumn != null) {
+            const version = driver.escape(versionColumn.databaseName)
+            set.push(`${version} = "t".${version} + 1`)
+            if (versions != null) {
+                versionType = getColumnType(this.em, metadata, versionColumn)
+                names.push(`"expected_version"`)
+                join.push(`"t".${version} = "v"."expected_version"`)
+            }
+        }
 
-                for (const entity of entities) {
-                    this.state.delete(entity.constructor, entity.id)
+        const rowsPerBatch = this.getBatchSize(metadata, allColumns.length + (versionType == null ? 0 : 1))
+        for (const batch of splitIntoBatches(entities.map((e, i) => i), rowsPerBatch)) {
+            const params: unknown[] = []
+            const rows: string[] = []
+            for (const i of batch) {
+                const values = allColumns.map((c, j) => {
+                    params.push(getPersistentValue(this.em, c, entities[i]))
+                    return `$${params.length}::${types[j]}`
+                })
+                if (versionType != null) {
+                    params.push(versions![i])
+                    values.push(`$${params.length}::${versionType}`)
                 }
-            } else {
-                const ids = Array.isArray(id) ? id : [id]
-                if (ids.length == 0) return
+                rows.push(`(${values.join(', ')})`)
+            }
 
-                for (const id of ids) {
-                    this.state.delete(e as EntityTarget<E>, id)
+            const [updated] = await this.em.query(
+                `UPDATE ${table} AS "t" SET ${set.join(', ')} ` +
+                    `FROM (VALUES ${rows.join(', ')}) AS "v"(${names.join(', ')}) ` +
+                    `WHERE ${join.join(' AND ')}` +
+                    (versionType == null && !relative ? '' : ` RETURNING ${returning.join(', ')}`),
+                params
+            )
+
+            if (relative && updated.length < batch.length) {
+                const keys = new Set(updated.map((row: any) => getRowKey(metadata, row)))
+                const missing = batch.map((i) => getEntityKey(metadata, entities[i])).filter((id) => !keys.has(id))
+                throw new Error(`unable to increment non-existent ${metadata.name} entities: ${missing.join(', ')}`)
+            }
+
+            if (versionType != null) {
+                this.checkVersions(metadata, batch.map((i) => entities[i]), updated)
+                for (const i of batch) {
+                    versionColumn!.setEntityValue(entities[i], Number(versions![i]) + 1)
                 }
             }
+        }
+    }
+
+    private checkVersions(metadata: EntityMetadata, entities: EntityLiteral[], updatedRows: any[]) {
+        if (updatedRows.length === entities.length) return
+
+        const updated = new Set(updatedRows.map((row) => getRowKey(metadata, row)))
+        const ids = entities.map((e) => getEntityKey(metadata, e)).filter((id) => !updated.has(id))
+        throw new VersionConflictError(metadata.name, ids)
+    }
+
+    /**
+     * Updates all entities matching the condition with a set-based `UPDATE` after syncing pending changes.
+     * Cached matching entities get the patch applied, or are evicted if it holds raw SQL values.
+     * Entity hooks are not invoked.
+     *
+     * @returns number of updated entities
+     */
+    async updateWhere<E extends EntityLiteral>(
+        target: EntityTarget<E>,
+        where: FindOptionsWhere<E> | FindOptionsWhere<E>[],
+        patch: QueryDeepPartialEntity<E>
+    ): Promise<number> {
+        return await this.performBulkWrite(target, where, async (metadata, ids) => {
+            // embedded entities are patched by nested objects
+            const columns = metadata.columns.filter((c) => c.getEntityValue(patch) !== undefined)
+            for (const property of Object.keys(patch)) {
+                assert(
+                    columns.some((c) => c.propertyPath === property || c.propertyPath.startsWith(property + '.')),
+                    `${metadata.name}.${property} is not a column`
+                )
+            }
+            for (const column of columns) {
+                assert(!column.isPrimary, `${metadata.name}.${column.propertyPath} is a primary column`)
+            }
+
+            this.logger?.debug(`update ${ids.length} ${metadata.name} entities by condition`)
+            // patched values are carried for dry runs and change records
+            const entities: EntityLiteral[] = ids.map((id) => {
+                const entity = createFromKey(metadata, id)
+                columns.forEach((c) => c.setEntityValue(entity, c.getEntityValue(patch)))
+                return entity
+            })
+            const cs: UpdateChangeSet = {
+                type: ChangeType.Update,
+                metadata,
+                entities,
+                columns,
+                patch: patch as Record<string, unknown>,
+            }
+            if (this.dryRun == null) {
+                await this.writeChangeSet(cs)
+            }
+            this.state.reconcile(cs, cs.patch)
+            return cs
+        })
+    }
+
+    /**
+     * Deletes all entities matching the condition with a set-based `DELETE` after syncing pending changes
+     * (or soft deletes them). Cached matching entities are marked as deleted. Entity hooks are not invoked.
+     *
+     * @returns number of deleted entities
+     */
+    async deleteWhere<E extends EntityLiteral>(
+        target: EntityTarget<E>,
+        where: FindOptionsWhere<E> | FindOptionsWhere<E>[]
+    ): Promise<number> {
+        return await this.performBulkWrite(target, where, async (metadata, ids) => {
+            const cs: DeleteChangeSet = {
+                type: ChangeType.Delete,
+                metadata,
+                ids,
+                softDeleteColumn: this.state.getSoftDeleteColumn(metadata.target),
+            }
+            if (this.dryRun == null) {
+                await this._delete(metadata, ids, cs.softDeleteColumn)
+            }
+            this.state.reconcile(cs)
+            return cs
+        })
+    }
+
+    private async performBulkWrite<E extends EntityLiteral>(
+        target: EntityTarget<E>,
+        where: FindOptionsWhere<E> | FindOptionsWhere<E>[],
+        cb: (metadata: EntityMetadata, ids: string[]) => Promise<UpdateChangeSet | DeleteChangeSet>
+    ): Promise<number> {
+        return await this.performRead(async () => {
+            await this.pendingSync.acquire()
+            try {
+                const metadata = this.getEntityMetadata(target)
+                // matching ids are needed anyway to record changes for rollback and to reconcile the cache
+                const matched = await this.em.find(target, {
+                    select: getKeySelect(metadata),
+                    where: this.whereNotDeleted(target, where, false),
+                })
+                const ids = matched.map((e) => getEntityKey(metadata, e))
+                if (ids.length == 0) return 0
+
+                const cs = await cb(metadata, ids)
+                await this.afterWrite(cs)
+                return ids.length
+            } finally {
+                this.pendingSync.release()
+            }
+        })
+    }
+
+    /**
+     * Adds deltas to numeric properties of the entity without loading it, e.g. `{count: 1}`.
+     *
+     * Deltas are accumulated until the next sync and written as `UPDATE ... SET col = col + delta`.
+     * A cached entity (including a pending insert) is changed in place instead.
+     * `NULL` values are incremented as zeros.
+     */
+    async increment<E extends EntityLiteral>(target: EntityTarget<E>, id: EntityId, deltas: Deltas<E>): Promise<void> {
+        const key = getIdKey(this.getEntityMetadata(target), id)
+        return await this.performWrite(() => {
+            this.state.increment(target, key, deltas as Record<string, number | bigint>)
+        })
+    }
+
+    /**
+     * Subtracts deltas from numeric properties of the entity without loading it, see {@link increment}.
+     */
+    async decrement<E extends EntityLiteral>(target: EntityTarget<E>, id: EntityId, deltas: Deltas<E>): Promise<void> {
+        const negated: Record<string, number | bigint> = {}
+        for (const [property, delta] of Object.entries(deltas as Record<string, number | bigint>)) {
+            negated[property] = -delta
+        }
+        return await this.increment(target, id, negated as Deltas<E>)
+    }
+
+    private async _writeLinks(cs: JunctionChangeSet) {
+        this.logger?.debug(`${cs.type} ${cs.links.length} ${cs.metadata.name} rows`)
+        if (cs.type === ChangeType.Link) {
+            const inserted = await insertLinks(this.em, cs.metadata, cs.links)
+            await this.junctionChanges?.track('link', cs.metadata, inserted)
+        } else {
+            const deleted = await deleteLinks(this.em, cs.metadata, cs.links, cs.owners ?? [])
+            await this.junctionChanges?.track('unlink', cs.metadata, deleted)
+        }
+    }
+
+    /**
+     * Deletes a given entity or entities from the database.
+     *
+     * Executes a primitive DELETE query without cascades, relations, etc., unless `cascade` is set.
+     * Entities configured for soft delete get their marker column set instead.
+     */
+    async delete<E extends EntityLiteral>(e: E | E[], options?: DeleteOptions): Promise<void>
+    async delete<E extends EntityLiteral>(
+        target: EntityTarget<E>,
+        id: EntityId | EntityId[],
+        options?: DeleteOptions
+    ): Promise<void>
+    async delete<E extends EntityLiteral>(
+        e: E | E[] | EntityTarget<E>,
+        idOrOptions?: EntityId | EntityId[] | DeleteOptions,
+        options?: DeleteOptions
+    ): Promise<void> {
+        const deletes: [EntityTarget<any>, string][] = []
+        if (Array.isArray(e) || this.em.connection.hasMetadata((e as object).constructor)) {
+            const entities = Array.isArray(e) ? e : [e as E]
+            for (const entity of entities) {
+                deletes.push([entity.constructor, getEntityKey(this.getEntityMetadata(entity.constructor), entity)])
+            }
+            options = idOrOptions as DeleteOptions | undefined
+        } else {
+            const metadata = this.getEntityMetadata(e as EntityTarget<E>)
+            const ids = Array.isArray(idOrOptions) ? idOrOptions : [idOrOptions as EntityId]
+            for (const id of ids) {
+                deletes.push([e as EntityTarget<E>, getIdKey(metadata, id)])
+            }
+        }
+        if (deletes.length == 0) return
+
+        if (options?.cascade) {
+            const visited = new Map<EntityMetadata, Set<string>>()
+            for (const [target, id] of deletes) {
+                const metadata = this.getEntityMetadata(target)
+                let ids = visited.get(metadata)
+                if (ids == null) {
+                    ids = new Set()
+                    visited.set(metadata, ids)
+                }
+                ids.add(id)
+            }
+            for (const [metadata, ids] of [...visited]) {
+                await this.collectDependents(metadata, [...ids], visited, deletes)
+            }
+        }
+
+        return await this.performWrite(() => {
+            for (const [target, id] of deletes) {
+                this.state.delete(target, id)
+            }
         })
     }
 
     /**
      * Alias for {@link Store.delete}
      */
-    remove<E extends EntityLiteral>(e: E | E[]): Promise<void>
-    remove<E extends EntityLiteral>(target: EntityTarget<E>, id: string | string[]): Promise<void>
-    remove<E extends EntityLiteral>(e: E | E[] | EntityTarget<E>, id?: string | string[]): Promise<void> {
-        return this.delete(e as any, id as any)
+    remove<E extends EntityLiteral>(e: E | E[], options?: DeleteOptions): Promise<void>
+    remove<E extends EntityLiteral>(
+        target: EntityTarget<E>,
+        id: EntityId | EntityId[],
+        options?: DeleteOptions
+    ): Promise<void>
+    remove<E extends EntityLiteral>(
+        e: E | E[] | EntityTarget<E>,
+        idOrOptions?: EntityId | EntityId[] | DeleteOptions,
+        options?: DeleteOptions
+    ): Promise<void> {
+        return this.delete(e as any, idOrOptions as any, options)
     }
 
-    private async _delete(metadata: EntityMetadata, ids: string[]) {
+    /**
+     * Follows `OneToMany` relations of deleted entities. Dependents are added to `deletes`,
+     * or get the reference nulled out if the relation is declared with `onDelete: 'SET NULL'`.
+     */
+    private async collectDependents(
+        metadata: EntityMetadata,
+        ids: string[],
+        visited: Map<EntityMetadata, Set<string>>,
+        deletes: [EntityTarget<any>, string][]
+    ): Promise<void> {
+        for (const relation of metadata.oneToManyRelations) {
+            const inverse = relation.inverseRelation
+            if (inverse == null) continue
+
+            const dependentMetadata = relation.inverseEntityMetadata
+            let dependentVisited = visited.get(dependentMetadata)
+            if (dependentVisited == null) {
+                dependentVisited = new Set()
+                visited.set(dependentMetadata, dependentVisited)
+            }
+
+            // pending changes are synced by the query, so dependents of the DB state are complete
+            const dependentIds: string[] = []
+            for (const batch of splitIntoBatches(ids, this.getBatchSize(metadata, metadata.primaryColumns.length))) {
+                const parents = getKeysWhere(metadata, batch)
+                const res = await this.performRead(async () => {
+                    return await this.em.find<EntityLiteral>(dependentMetadata.target, {
+                        select: getKeySelect(dependentMetadata),
+                        where: Array.isArray(parents)
+                            ? parents.map((p) => ({[inverse.propertyName]: p}))
+                            : {[inverse.propertyName]: parents},
+                    })
+                })
+                for (const e of res) {
+                    const id = getEntityKey(dependentMetadata, e)
+                    if (dependentVisited.has(id)) continue
+                    dependentVisited.add(id)
+                    dependentIds.push(id)
+                }
+            }
+            if (dependentIds.length == 0) continue
+
+            if (inverse.onDelete === 'SET NULL') {
+                const dependents = await this.getMany(
+                    dependentMetadata.target,
+                    dependentIds.map((id) => createFromKey(dependentMetadata, id)),
+                    {cacheEntities: true}
+                )
+                for (const dependent of dependents.values()) {
+                    if (dependent == null) continue
+                    // loaded entities are touched, so the change is written as an update
+                    inverse.setEntityValue(dependent, null)
+                }
+            } else {
+                await this.collectDependents(dependentMetadata, dependentIds, visited, deletes)
+                for (const id of dependentIds) {
+                    deletes.push([dependentMetadata.target, id])
+                }
+            }
+        }
+    }
+
+    private async _delete(metadata: EntityMetadata, ids: string[], softDeleteColumn?: ColumnMetadata) {
+        if (softDeleteColumn != null) return this._softDelete(metadata, ids, softDeleteColumn)
+
         this.logger?.debug(`delete ${metadata.name} ${ids.length} entities`)
-        await this.changes?.trackDelete(metadata.target as EntityClass<any>, ids)
-        await this.deleteMany(metadata.target, ids)
+        await this.getChangeTracker(metadata)?.trackDelete(metadata.target as EntityClass<any>, ids)
+        await this.deleteMany(metadata, ids)
     }
 
-    private async deleteMany(target: EntityTarget<any>, ids: string[]) {
-        for (const batch of splitIntoBatches(ids, 50000)) {
-            await this.em.delete(target, batch)
+    private async _softDelete(metadata: EntityMetadata, ids: string[], column: ColumnMetadata) {
+        this.logger?.debug(`soft delete ${metadata.name} ${ids.length} entities`)
+        // rows are kept, so rollback has to restore the marker column only
+        await this.getChangeTracker(metadata)?.trackUpsert(
+            metadata.target as EntityClass<any>,
+            ids.map((id) => createFromKey(metadata, id)) as TrackedEntity[]
+        )
+
+        let value: unknown
+        if (isNumericColumn(this.em, column)) {
+            assert(this.blockHeight != null, `block height is unknown, unable to soft delete ${metadata.name}`)
+            value = this.blockHeight
+        } else {
+            assert(this.blockTimestamp != null, `block timestamp is unknown, unable to soft delete ${metadata.name}`)
+            value = new Date(this.blockTimestamp)
+        }
+
+        const driver = this.em.connection.driver
+        const key = getKeyCondition(this.em, metadata, ids, 2)
+        await this.em.query(
+            `UPDATE ${escapeTableName(this.em, metadata)} SET ${driver.escape(column.databaseName)} = $1 ` +
+                `WHERE ${key.sql}`,
+            [driver.preparePersistentValue(value, column), ...key.params]
+        )
+    }
+
+    /**
+     * Writes of unfinalized blocks are recorded by `@subsquid/typeorm-store`, which supports text `id` primary keys only.
+     * Writes of entities with other keys are recorded by the store itself.
+     */
+    private getChangeTracker(metadata: EntityMetadata): ChangeTracker | KeyedChangeTracker | undefined {
+        if (this.changes == null) return undefined
+        if (hasTextId(this.em, metadata)) return this.changes
+        assert(this.keyedChanges != null, `unable to record changes of ${metadata.name} in unfinalized blocks`)
+        return this.keyedChanges
+    }
+
+    /**
+     * Writes the change set as is, without hooks, history and outbox records.
+     * Shared by sync and `replay()`.
+     *
+     * @internal
+     */
+    async writeChangeSet(cs: ChangeSet): Promise<void> {
+        switch (cs.type) {
+            case ChangeType.Upsert:
+                await this._upsert(cs.metadata, cs.entities)
+                break
+            case ChangeType.Insert:
+                await this._insert(cs.metadata, cs.entities)
+                break
+            case ChangeType.Update:
+                await this._update(cs)
+                break
+            case ChangeType.Increment:
+                await this._increment(cs)
+                break
+            case ChangeType.Delete:
+                await this._delete(cs.metadata, cs.ids, cs.softDeleteColumn)
+                break
+            case ChangeType.Link:
+            case ChangeType.Unlink:
+                await this._writeLinks(cs)
+                break
+        }
+    }
+
+    private async afterWrite(cs: ChangeSet) {
+        if (this.dryRun != null) {
+            // entities are still mutated by handlers after the sync
+            this.dryRun.push('entities' in cs ? {...cs, entities: cs.entities.map((e) => copyEntity(cs.metadata, e))} : cs)
+            return
+        }
+        this.records?.add(cs, this.blockHeight!)
+        if (cs.type === ChangeType.Link || cs.type === ChangeType.Unlink) return
+        if (this.state.hasHistory(cs.metadata.target)) {
+            await this.writeHistory(cs)
+        }
+        await this.outbox?.write(cs)
+        this.collector?.add(cs)
+    }
+
+    private async writeHistory(cs: Exclude<ChangeSet, JunctionChangeSet>) {
+        assert(this.blockHeight != null, `block height is unknown, unable to write history of ${cs.metadata.name}`)
+        const ids = 'ids' in cs ? cs.ids : cs.entities.map((e) => getEntityKey(cs.metadata, e))
+        await writeHistory(this.em, cs.metadata, ids, this.blockHeight)
+    }
+
+    /**
+     * Excludes soft-deleted entities from the condition unless asked otherwise
+     * or the marker property is already constrained.
+     */
+    private whereNotDeleted<E extends EntityLiteral>(
+        target: EntityTarget<E>,
+        where: FindOptionsWhere<E> | FindOptionsWhere<E>[] | undefined,
+        withDeleted: boolean | undefined
+    ): FindOptionsWhere<E> | FindOptionsWhere<E>[] | undefined {
+        if (withDeleted) return where
+
+        const column = this.state.getSoftDeleteColumn(target)
+        if (column == null) return where
+
+        const exclude = (w: FindOptionsWhere<E> | undefined) => {
+            if (w != null && column.propertyPath in w) return w
+            return {...w, [column.propertyPath]: IsNull()} as FindOptionsWhere<E>
+        }
+        return Array.isArray(where) ? where.map(exclude) : exclude(where)
+    }
+
+    private async deleteMany(metadata: EntityMetadata, ids: string[]) {
+        for (const batch of splitIntoBatches(ids, this.getBatchSize(metadata, metadata.primaryColumns.length))) {
+            await this.em.delete(
+                metadata.target,
+                batch.map((id) => createFromKey(metadata, id))
+            )
         }
     }
 
     async count<E extends EntityLiteral>(target: EntityTarget<E>, options?: FindManyOptions<E>): Promise<number> {
         return await this.performRead(async () => {
-            return await this.em.count(target, options)
+            const {cacheEntities, withDeleted, ...opts} = options ?? {}
+            return await this.em.count(target, {...opts, where: this.whereNotDeleted(target, opts.where, withDeleted)})
         })
     }
 
@@ -292,10 +1033,10 @@ export class Store {
 
     async find<E extends EntityLiteral>(target: EntityTarget<E>, options: FindManyOptions<E>): Promise<E[]> {
         return await this.performRead(async () => {
-            const {cacheEntities, ...opts} = options
+            const {cacheEntities, withDeleted, ...opts} = options
 
-            const res = await this.em.find(target, opts)
-            if (cacheEntities ?? this.cacheEntities) {
+            const res = await this.em.find(target, {...opts, where: this.whereNotDeleted(target, opts.where, withDeleted)})
+            if ((cacheEntities ?? this.cacheEntities) && !withDeleted) {
                 for (const e of res) {
                     this.cacheEntity(target, e)
                     this.touchReturnedGraph(e)
@@ -306,6 +1047,53 @@ export class Store {
         })
     }
 
+    /**
+     * Iterates over all matching entities in order of their primary keys, fetching them page by page.
+     *
+     * Pending changes are synced before every page. Entities which are already cached
+     * are returned as their canonical cached instances. Pass `cacheEntities: false`
+     * to keep the scanned entities out of the cache.
+     */
+    async *findIterator<E extends EntityLiteral>(
+        target: EntityTarget<E>,
+        options?: FindIteratorOptions<E>
+    ): AsyncGenerator<E> {
+        const {pageSize = 1000, withDeleted, relations} = options ?? {}
+        assert(pageSize > 0, 'page size must be positive')
+
+        const where = this.whereNotDeleted(target, options?.where, withDeleted)
+        const cacheEntities = !withDeleted && (options?.cacheEntities ?? this.cacheEntities)
+
+        const metadata = this.getEntityMetadata(target)
+        const order = getKeyOrder(metadata)
+
+        let cursor: E | undefined
+        while (true) {
+            const page = await this.performRead(async () => {
+                return await this.em.find(target, {
+                    where: whereAfter(metadata, where, cursor),
+                    relations,
+                    order,
+                    take: pageSize,
+                })
+            })
+
+            for (const e of page) {
+                if (cacheEntities) {
+                    this.cacheEntity(target, e)
+                }
+                const entity = noNull(this.state.get<E>(target, getEntityKey(metadata, e), relations)) ?? e
+                if (cacheEntities) {
+                    this.touchReturnedGraph(entity)
+                }
+                yield entity
+            }
+
+            if (page.length < pageSize) return
+            cursor = page[page.length - 1]
+        }
+    }
+
     async findBy<E extends EntityLiteral>(
         target: EntityTarget<E>,
         where: FindOptionsWhere<E> | FindOptionsWhere<E>[]
@@ -318,11 +1106,13 @@ export class Store {
         options: FindOneOptions<E>
     ): Promise<E | undefined> {
         return await this.performRead(async () => {
-            const {cacheEntities, ...opts} = options
+            const {cacheEntities, withDeleted, ...opts} = options
 
-            const res = await this.em.findOne(target, opts).then(noNull)
-            if (cacheEntities ?? this.cacheEntities) {
-                const idOrEntity = res || getIdFromWhere(options.where)
+            const res = await this.em
+                .findOne(target, {...opts, where: this.whereNotDeleted(target, opts.where, withDeleted)})
+                .then(noNull)
+            if ((cacheEntities ?? this.cacheEntities) && !withDeleted) {
+                const idOrEntity = res || getKeyFromWhere(this.getEntityMetadata(target), options.where)
                 this.cacheEntity(target, idOrEntity)
                 if (res != null) {
                     this.touchReturnedGraph(res)
@@ -357,17 +1147,120 @@ export class Store {
         return res
     }
 
-    async get<E extends EntityLiteral>(target: EntityTarget<E>, id: string): Promise<E | undefined>
+    /**
+     * Finds versions of entities which were current at the given block height,
+     * entity type must have history enabled.
+     *
+     * Returned entities are detached from the store: they are not cached and their changes are not tracked.
+     * Relations hold references with ids only.
+     */
+    async findAsOf<E extends EntityLiteral>(
+        target: EntityTarget<E>,
+        height: number,
+        options?: FindAsOfOptions<E>
+    ): Promise<E[]> {
+        const metadata = this.getEntityMetadata(target)
+        assert(this.state.hasHistory(metadata.target), `history of ${metadata.name} is not enabled`)
+
+        return await this.performRead(async () => {
+            const driver = this.em.connection.driver
+            const columns = getSnapshotColumns(metadata)
+
+            const params: unknown[] = [height]
+            const conditions = ['valid_from <= $1', '(valid_to IS NULL OR valid_to > $1)']
+            for (const [property, value] of Object.entries(options?.where ?? {})) {
+                const column = metadata.findColumnWithPropertyPath(property)
+                assert(column != null, `${metadata.name}.${property} is not a column`)
+                if (value == null) {
+                    conditions.push(`${driver.escape(column.databaseName)} IS NULL`)
+                } else {
+                    const v = column.relationMetadata != null && typeof value === 'object' ? value.id : value
+                    params.push(column.relationMetadata != null ? v : driver.preparePersistentValue(v, column))
+                    conditions.push(`${driver.escape(column.databaseName)} = $${params.length}`)
+                }
+            }
+
+            let sql =
+                `SELECT ${columns.map((c) => driver.escape(c.databaseName)).join(', ')} ` +
+                `FROM ${getHistoryTableName(this.em, metadata)} WHERE ${conditions.join(' AND ')} ` +
+                `ORDER BY ${metadata.primaryColumns.map((c) => driver.escape(c.databaseName)).join(', ')}`
+            if (options?.take != null) {
+                params.push(options.take)
+                sql += ` LIMIT $${params.length}`
+            }
+
+            const rows: any[] = await this.em.query(sql, params)
+            return rows.map((row) => {
+                const entity = metadata.create() as E
+                for (const column of columns) {
+                    const value = row[column.databaseName]
+                    if (value == null && column.relationMetadata != null) {
+                        column.relationMetadata.setEntityValue(entity, null)
+                    } else {
+                        column.setEntityValue(entity, driver.prepareHydratedValue(value, column))
+                    }
+                }
+                return entity
+            })
+        })
+    }
+
+    /**
+     * Gets the version of the entity which was current at the given block height, see {@link findAsOf}.
+     */
+    async getAsOf<E extends EntityLiteral>(target: EntityTarget<E>, id: EntityId, height: number): Promise<E | undefined> {
+        const metadata = this.getEntityMetadata(target)
+        const key = createFromKey(metadata, getIdKey(metadata, id))
+        const where: Record<string, unknown> = {}
+        for (const column of metadata.primaryColumns) {
+            where[column.propertyPath] = column.getEntityValue(key)
+        }
+        const res = await this.findAsOf(target, height, {where: where as FindAsOfOptions<E>['where'], take: 1})
+        return res[0]
+    }
+
+    /**
+     * Executes a raw SQL query after syncing pending changes.
+     *
+     * Writes made by the query are not recorded for hot block rollback,
+     * and entity types it modifies must be declared in `affects` to keep the cache consistent.
+     */
+    async query<T = any>(sql: string, parameters?: any[], options?: QueryOptions): Promise<T> {
+        const res = await this.performRead(async () => {
+            return await this.em.query(sql, parameters)
+        })
+        for (const target of options?.affects ?? []) {
+            this.state.invalidate(target)
+        }
+        return res
+    }
+
+    /**
+     * Creates a read-only query builder for entities of the given type.
+     * Pending changes are synced before each query the builder runs.
+     *
+     * Entities returned by the builder are not cached.
+     */
+    createQueryBuilder<E extends EntityLiteral>(target: EntityTarget<E>, alias?: string): StoreQueryBuilder<E> {
+        this.assertNotClosed()
+        const metadata = this.getEntityMetadata(target)
+        const qb = this.em.createQueryBuilder<E>(target, alias ?? metadata.targetName)
+        return new StoreQueryBuilder(qb, (cb) => this.performRead(cb))
+    }
+
+    async get<E extends EntityLiteral>(target: EntityTarget<E>, id: EntityId): Promise<E | undefined>
     async get<E extends EntityLiteral>(target: EntityTarget<E>, options: GetOptions<E>): Promise<E | undefined>
     async get<E extends EntityLiteral>(
         target: EntityTarget<E>,
-        idOrOptions: string | GetOptions<E>
+        idOrOptions: EntityId | GetOptions<E>
     ): Promise<E | undefined> {
         await this.load()
 
-        const {id, relations, cacheEntities} = parseGetOptions(idOrOptions)
+        const metadata = this.getEntityMetadata(target)
+        const {id, relations, cacheEntities} = parseGetOptions(metadata, idOrOptions)
+        const key = getIdKey(metadata, id)
 
-        let entity = this.state.get<E>(target, id, relations)
+        let entity = this.state.get<E>(target, key, relations)
         if (entity !== undefined) {
             if (cacheEntities ?? this.cacheEntities) {
                 this.touchReturnedGraph(entity as EntityLiteral)
@@ -375,13 +1268,116 @@ export class Store {
             return noNull(entity)
         }
 
-        return await this.findOne(target, {where: {id} as any, relations, cacheEntities})
+        return await this.findOne(target, {
+            where: getKeysWhere(metadata, [key]) as FindOptionsWhere<E>,
+            relations,
+            cacheEntities,
+        })
     }
 
-    async getOrFail<E extends EntityLiteral>(target: EntityTarget<E>, id: string): Promise<E>
+    /**
+     * Gets entities by ids. Cached entities are returned from the cache,
+     * only the missing ones are queried.
+     *
+     * @returns map of entities by id in the order of `ids`, `undefined` for entities which do not exist
+     */
+    async getMany<E extends EntityLiteral, I extends EntityId>(
+        target: EntityTarget<E>,
+        ids: I[],
+        options?: GetManyOptions<E>
+    ): Promise<Map<I, E | undefined>> {
+        await this.load()
+
+        const metadata = this.getEntityMetadata(target)
+        const {relations, cacheEntities} = options ?? {}
+        const keys = ids.map((id) => getIdKey(metadata, id))
+
+        const found = new Map<string, E | undefined>()
+        const missing: string[] = []
+        for (const id of new Set(keys)) {
+            const entity = this.state.get<E>(target, id, relations)
+            if (entity === undefined) {
+                missing.push(id)
+            } else {
+                if (cacheEntities ?? this.cacheEntities) {
+                    this.touchReturnedGraph(entity as EntityLiteral)
+                }
+                found.set(id, noNull(entity))
+            }
+        }
+
+        if (missing.length > 0) {
+            const batchSize = this.getBatchSize(metadata, metadata.primaryColumns.length)
+            for (const batch of splitIntoBatches(missing, batchSize)) {
+                const where = getKeysWhere(metadata, batch) as FindOptionsWhere<E>
+                const res = await this.find(target, {where, relations, cacheEntities})
+                for (const e of res) {
+                    // prefer the canonical instance if the entity got cached
+                    const id = getEntityKey(metadata, e)
+                    found.set(id, noNull(this.state.get<E>(target, id, relations)) ?? e)
+                }
+            }
+
+            for (const id of missing) {
+                if (found.has(id)) continue
+                found.set(id, undefined)
+                if (cacheEntities ?? this.cacheEntities) {
+                    this.state.persist(target, id)
+                }
+            }
+        }
+
+        const result = new Map<I, E | undefined>()
+        ids.forEach((id, i) => result.set(id, found.get(keys[i])))
+
+        return result
+    }
+
+    /**
+     * Gets an entity by values of unique columns, e.g. `{address: '0x...'}`.
+     *
+     * Lookups are served from the cache when the entity is already cached with the same values.
+     */
+    async getBy<E extends EntityLiteral>(
+        target: EntityTarget<E>,
+        by: UniqueWhere<E>,
+        options?: Omit<GetByOptions<E>, 'by'>
+    ): Promise<E | undefined> {
+        await this.load()
+
+        const {relations, cacheEntities} = options ?? {}
+
+        let entity = this.state.getBy<E>(target, by, relations)
+        if (entity !== undefined) {
+            if (cacheEntities ?? this.cacheEntities) {
+                this.touchReturnedGraph(entity as EntityLiteral)
+            }
+            return noNull(entity)
+        }
+
+        const res = await this.findOne(target, {where: by as FindOptionsWhere<E>, relations, cacheEntities})
+        if (res == null && (cacheEntities ?? this.cacheEntities)) {
+            this.state.settleBy(target, by)
+        }
+
+        return res
+    }
+
+    async getByOrFail<E extends EntityLiteral>(
+        target: EntityTarget<E>,
+        by: UniqueWhere<E>,
+        options?: Omit<GetByOptions<E>, 'by'>
+    ): Promise<E> {
+        let e = await this.getBy(target, by, options)
+        if (e == null) throw new EntityNotFoundError(target, by)
+
+        return e
+    }
+
+    async getOrFail<E extends EntityLiteral>(target: EntityTarget<E>, id: EntityId): Promise<E>
     async getOrFail<E extends EntityLiteral>(target: EntityTarget<E>, options: GetOptions<E>): Promise<E>
-    async getOrFail<E extends EntityLiteral>(target: EntityTarget<E>, idOrOptions: string | GetOptions<E>): Promise<E> {
-        const options = parseGetOptions(idOrOptions)
+    async getOrFail<E extends EntityLiteral>(target: EntityTarget<E>, idOrOptions: EntityId | GetOptions<E>): Promise<E> {
+        const options = parseGetOptions(this.getEntityMetadata(target), idOrOptions)
 
         let e = await this.get(target, options)
         if (e == null) throw new EntityNotFoundError(target, options.id)
@@ -389,22 +1385,22 @@ export class Store {
         return e
     }
 
-    async getOrCreate<E extends EntityLiteral>(
+    async getOrCreate<E extends EntityLiteral, I extends EntityId>(
         target: EntityTarget<E>,
-        id: string,
-        create: (id: string) => E | Promise<E>
+        id: I,
+        create: (id: I) => E | Promise<E>
     ): Promise<E>
-    async getOrCreate<E extends EntityLiteral>(
+    async getOrCreate<E extends EntityLiteral, I extends EntityId>(
         target: EntityTarget<E>,
-        options: GetOptions<E>,
-        create: (id: string) => E | Promise<E>
+        options: GetOptions<E, I>,
+        create: (id: I) => E | Promise<E>
     ): Promise<E>
-    async getOrCreate<E extends EntityLiteral>(
+    async getOrCreate<E extends EntityLiteral, I extends EntityId>(
         target: EntityTarget<E>,
-        idOrOptions: string | GetOptions<E>,
-        create: (id: string) => E | Promise<E>
+        idOrOptions: I | GetOptions<E, I>,
+        create: (id: I) => E | Promise<E>
     ): Promise<E> {
-        const options = parseGetOptions(idOrOptions)
+        const options = parseGetOptions(this.getEntityMetadata(target), idOrOptions)
         let e = await this.get(target, options)
 
         if (e == null) {
@@ -427,17 +1423,10 @@ export class Store {
         try {
             await this.state.performUpdate(async (changeSets) => {
                 for (const cs of changeSets) {
-                    switch (cs.type) {
-                        case ChangeType.Upsert:
-                            await this._upsert(cs.metadata, cs.entities)
-                            break
-                        case ChangeType.Insert:
-                            await this._insert(cs.metadata, cs.entities)
-                            break
-                        case ChangeType.Delete:
-                            await this._delete(cs.metadata, cs.ids)
-                            break
+                    if (this.dryRun == null) {
+                        await this.writeChangeSet(cs)
                     }
+                    await this.afterWrite(cs)
                 }
             })
         } finally {
@@ -445,6 +1434,30 @@ export class Store {
         }
     }
 
+    /**
+     * Sets the height of the block being processed, changes made afterwards are attributed to it.
+     * Pending changes are synced first if history is recorded for any entity type,
+     * so versions of every block are valid from the height of that block.
+     *
+     * The block timestamp (in milliseconds) is the marker value of soft deletes into non-numeric columns.
+     */
+    async setBlockHeight(height: number, timestamp?: number): Promise<void> {
+        this.assertNotClosed()
+        if (height === this.blockHeight) {
+            this.blockTimestamp = timestamp ?? this.blockTimestamp
+            return
+        }
+        assert(
+            this.lastBlockHeight == null || height <= this.lastBlockHeight,
+            `block ${height} is beyond the last block ${this.lastBlockHeight} of the batch`
+        )
+        if (this.state.hasHistory()) {
+            await this.sync()
+        }
+        this.blockHeight = height
+        this.blockTimestamp = timestamp
+    }
+
     async flush(): Promise<void> {
         await this.sync()
         this.reset()
@@ -469,6 +1482,9 @@ export class Store {
         assert(!this.isClosed, `too late to perform db updates, make sure you haven't forgot to await on db query`)
     }
 
+    /**
+     * Caches the entity with its relations, or records a missing entity by its key.
+     */
     private cacheEntity<E extends EntityLiteral>(target: EntityTarget<E>, entityOrId?: E | string) {
         if (entityOrId == null) return
 
@@ -508,33 +1524,82 @@ export class Store {
     }
 }
 
-function parseGetOptions<E>(idOrOptions: string | GetOptions<E>): GetOptions<E> {
-    if (typeof idOrOptions === 'string') {
-        return {id: idOrOptions}
-    } else {
+function parseGetOptions<E, I extends EntityId>(metadata: EntityMetadata, idOrOptions: I | GetOptions<E, I>): GetOptions<E, I> {
+    if (isGetOptions(metadata, idOrOptions)) {
         return idOrOptions
+    } else {
+        return {id: idOrOptions}
     }
 }
 
-function getIdFromWhere(where?: FindOptionsWhere<EntityLiteral> | FindOptionsWhere<EntityLiteral>[]): string | undefined {
-    if (Array.isArray(where)) {
-        return where.length === 1 ? getIdFromWhere(where[0]) : undefined
-    }
-    return typeof where?.id === 'string' ? where.id : undefined
+function isGetOptions<E, I extends EntityId>(
+    metadata: EntityMetadata,
+    idOrOptions: I | GetOptions<E, I>
+): idOrOptions is GetOptions<E, I> {
+    if (typeof idOrOptions !== 'object' || !('id' in idOrOptions)) return false
+    // a composite key may have an `id` property too, while options hold the whole key in it
+    return metadata.primaryColumns.length == 1 || typeof idOrOptions.id === 'object'
 }
 
-export class DeferredEntity<E extends EntityLiteral> {
-    constructor(readonly target: EntityTarget<E>, readonly opts: GetOptions<E>, private store: Store) {}
+/**
+ * Restricts the condition to entities following the cursor in order of primary keys:
+ * `a > x OR (a = x AND b > y)` for a composite key `(a, b)`.
+ */
+function whereAfter<E extends EntityLiteral>(
+    metadata: EntityMetadata,
+    where: FindOptionsWhere<E> | FindOptionsWhere<E>[] | undefined,
+    cursor: E | undefined
+): FindOptionsWhere<E> | FindOptionsWhere<E>[] | undefined {
+    if (cursor == null) return where
+
+    const columns = metadata.primaryColumns
+    const conditions = columns.map((column, i) => {
+        const condition: Record<string, FindOperator<unknown>> = {}
+        for (const c of columns.slice(0, i)) {
+            condition[c.propertyPath] = Equal(c.getEntityValue(cursor))
+        }
+        condition[column.propertyPath] = MoreThan(column.getEntityValue(cursor))
+        return condition
+    })
+
+    const wheres: FindOptionsWhere<E>[] = Array.isArray(where) ? where : [where ?? {}]
+    const result = wheres.flatMap((w) =>
+        conditions.map((condition) => {
+            const merged: Record<string, unknown> = {...w}
+            for (const [property, operator] of Object.entries(condition)) {
+                const value = merged[property]
+                merged[property] =
+                    value == null ? operator : And(value instanceof FindOperator ? value : Equal(value), operator)
+            }
+            return merged as FindOptionsWhere<E>
+        })
+    )
+    return result.length == 1 ? result[0] : result
+}
+
+export class DeferredEntity<E extends EntityLiteral, I extends EntityId = EntityId> {
+    constructor(
+        readonly target: EntityTarget<E>,
+        readonly opts: GetOptions<E, I> | GetByOptions<E>,
+        private store: Store
+    ) {}
 
     async get(): Promise<E | undefined> {
+        if ('by' in this.opts) {
+            return this.store.getBy(this.target, this.opts.by, this.opts)
+        }
         return this.store.get(this.target, this.opts)
     }
 
     async getOrFail(): Promise<E> {
+        if ('by' in this.opts) {
+            return this.store.getByOrFail(this.target, this.opts.by, this.opts)
+        }
         return this.store.getOrFail(this.target, this.opts)
     }
 
-    async getOrCreate(create: (id: string) => E | Promise<E>): Promise<E> {
+    async getOrCreate(create: (id: I) => E | Promise<E>): Promise<E> {
+        assert(!('by' in this.opts), 'getOrCreate() is not supported for entities deferred by unique columns')
         return this.store.getOrCreate(this.target, this.opts, create)
     }
 }
@@ -0,0 +1,90 @@
+import expect from 'expect'
+import {Client as PgClient} from 'pg'
+import {DryRunEvent, TypeormDatabase, TypeormDatabaseOptions} from '../database'
+import {Item} from './lib/model'
+import {db_config, getEntityManager, useDatabase} from './util'
+
+describe('TypeormDatabase', function () {
+    useDatabase([`CREATE TABLE item (id text primary key , name text)`])
+
+    let db: TypeormDatabase | undefined
+
+    afterEach(async () => {
+        await db?.disconnect()
+        db = undefined
+    })
+
+    async function connect(options?: TypeormDatabaseOptions) {
+        db = new TypeormDatabase({projectDir: __dirname, ...options})
+        return {db, state: await db.connect()}
+    }
+
+    describe('Notifications', function () {
+        let client: PgClient
+
+        beforeEach(async () => {
+            client = new PgClient(db_config)
+            await client.connect()
+            await client.query('LISTEN squid_changes')
+        })
+
+        afterEach(async () => {
+            await client.end()
+        })
+
+        function nextPayload(): Promise<unknown> {
+            return new Promise((resolve) => client.once('notification', (msg) => resolve(JSON.parse(msg.payload!))))
+        }
+
+        it('notifies about committed blocks and rollbacks', async function () {
+            const {db, state} = await connect({notifyChannel: 'squid_changes'})
+            const base = {height: state.height, hash: state.hash}
+
+            let payload = nextPayload()
+            await db.transactHot(
+                {baseHead: base, finalizedHead: base, newBlocks: [{height: 1, hash: '0x1'}]},
+                async (store) => {
+                    await store.track(new Item('1', 'a'))
+                }
+            )
+            await expect(payload).resolves.toEqual({height: 1, hash: '0x1', rollback: false, entities: ['Item']})
+
+            payload = nextPayload()
+            await db.transactHot(
+                {baseHead: base, finalizedHead: base, newBlocks: [{height: 1, hash: '0x1b'}]},
+                async () => {}
+            )
+            await expect(payload).resolves.toEqual({height: 1, hash: '0x1b', rollback: true, entities: []})
+        })
+    })
+
+    describe('Dry run', function () {
+        it('rolls back every transaction and continues from the processed head', async function () {
+            const {db, state} = await connect({dryRun: true})
+            const events: DryRunEvent[] = []
+            db.onDryRun((event) => {
+                events.push(event)
+            })
+
+            const base = {height: state.height, hash: state.hash}
+            await db.transact({prevHead: base, nextHead: {height: 1, hash: '0x1'}}, async (store) => {
+                await store.track(new Item('1', 'a'))
+            })
+            // the status is not updated, so the next batch starts from the head kept in memory
+            await db.transact({prevHead: {height: 1, hash: '0x1'}, nextHead: {height: 2, hash: '0x2'}}, async (store) => {
+                await expect(store.get(Item, '1')).resolves.toBeUndefined()
+                await store.track(new Item('2', 'b'))
+            })
+
+            expect(events).toMatchObject([
+                {from: 0, to: 1, head: {height: 1, hash: '0x1'}, changeSets: [{entities: [{id: '1', name: 'a'}]}]},
+                {from: 2, to: 2, head: {height: 2, hash: '0x2'}, changeSets: [{entities: [{id: '2', name: 'b'}]}]},
+            ])
+            const em = await getEntityManager()
+            await expect(em.query(`SELECT height, hash FROM squid_processor.status`)).resolves.toEqual([
+                {height: -1, hash: '0x'},
+            ])
+            await expect(em.query(`SELECT * FROM item`)).resolves.toEqual([])
+        })
+    })
+})
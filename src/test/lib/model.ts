@@ -1,4 +1,4 @@
-import {Column as Column_, Column, Entity, ManyToOne, PrimaryColumn} from 'typeorm'
+import {Column as Column_, Column, Entity, JoinTable, ManyToMany, ManyToOne, OneToMany, PrimaryColumn, VersionColumn} from 'typeorm'
 
 
 @Entity()
@@ -35,6 +35,175 @@ export class Order {
 }
 
 
+@Entity()
+export class Account {
+    @PrimaryColumn()
+    id!: string
+
+    @Column()
+    name?: string
+
+    @Column('int4', {nullable: true})
+    deletedAtBlock?: number | null
+
+    @Column('timestamp with time zone', {nullable: true})
+    deletedAt?: Date | null
+
+    constructor(id?: string, name?: string) {
+        if (id != null) {
+            this.id = id
+            this.name = name
+        }
+    }
+}
+
+
+@Entity()
+export class Pool {
+    @PrimaryColumn()
+    id!: string
+
+    @OneToMany(() => Position, (p) => p.pool)
+    positions!: Position[]
+
+    @OneToMany(() => Swap, (s) => s.pool)
+    swaps!: Swap[]
+
+    constructor(id?: string) {
+        if (id != null) {
+            this.id = id
+        }
+    }
+}
+
+
+@Entity()
+export class Position {
+    @PrimaryColumn()
+    id!: string
+
+    @ManyToOne(() => Pool)
+    pool!: Pool
+
+    constructor(opts?: Position) {
+        Object.assign(this, opts)
+    }
+}
+
+
+@Entity()
+export class Swap {
+    @PrimaryColumn()
+    id!: string
+
+    @ManyToOne(() => Pool, {nullable: true, onDelete: 'SET NULL'})
+    pool!: Pool | null
+
+    constructor(opts?: Swap) {
+        Object.assign(this, opts)
+    }
+}
+
+
+@Entity()
+export class Tag {
+    @PrimaryColumn()
+    id!: string
+
+    constructor(id?: string) {
+        if (id != null) {
+            this.id = id
+        }
+    }
+}
+
+
+@Entity()
+export class Article {
+    @PrimaryColumn()
+    id!: string
+
+    @ManyToMany(() => Tag)
+    @JoinTable()
+    tags!: Tag[]
+
+    constructor(opts?: Article) {
+        Object.assign(this, opts)
+    }
+}
+
+
+@Entity()
+export class Balance {
+    @PrimaryColumn('int4')
+    chainId!: number
+
+    @PrimaryColumn()
+    address!: string
+
+    @Column('int4')
+    amount!: number
+
+    constructor(opts?: Balance) {
+        Object.assign(this, opts)
+    }
+}
+
+
+@Entity()
+export class Block {
+    @PrimaryColumn('int8', {transformer: {from: (s?: string) => s == null ? null : BigInt(s), to: (val?: bigint) => val?.toString()}})
+    height!: bigint
+
+    @Column()
+    hash!: string
+
+    constructor(opts?: Block) {
+        Object.assign(this, opts)
+    }
+}
+
+
+@Entity()
+export class Wallet {
+    @PrimaryColumn()
+    id!: string
+
+    @Column('int4')
+    balance!: number
+
+    @VersionColumn()
+    version!: number
+
+    constructor(opts?: Partial<Wallet>) {
+        Object.assign(this, opts)
+    }
+}
+
+
+export class Location {
+    @Column('int4')
+    x!: number
+
+    @Column('int4')
+    y!: number
+}
+
+
+@Entity()
+export class Place {
+    @PrimaryColumn()
+    id!: string
+
+    @Column(() => Location)
+    location!: Location
+
+    constructor(opts?: Place) {
+        Object.assign(this, opts)
+    }
+}
+
+
 @Entity()
 export class Data {
     constructor(props?: Partial<Data>) {
@@ -1,10 +1,22 @@
 import {assertNotNull} from '@subsquid/util-internal'
 import expect from 'expect'
-import {Equal} from 'typeorm'
-import {Store} from '../store'
-import {Item, Order} from './lib/model'
+import {existsSync} from 'fs'
+import {mkdtemp, readFile, rm} from 'fs/promises'
+import {tmpdir} from 'os'
+import {join} from 'path'
+import {PassThrough, Writable} from 'stream'
+import {Equal, In} from 'typeorm'
+import {Store, StoreOptions, VersionConflictError} from '../store'
+import {Account, Article, Balance, Block, Data, Item, Order, Place, Pool, Position, Swap, Tag, Wallet} from './lib/model'
 import {getEntityManager, useDatabase} from './util'
-import {StateManager} from '../utils/stateManager'
+import {ChangeSet, ChangeType, InsertChangeSet, StateManager} from '../utils/stateManager'
+import {ChangeCollector} from '../utils/changeCollector'
+import {OutboxWriter} from '../utils/outbox'
+import {createHistoryTable, rollbackHistory} from '../utils/history'
+import {ChangeRecord, ChangeRecordBuffer, NdjsonRecorder} from '../utils/recorder'
+import {replay} from '../replay'
+import {KeyedChangeTracker, rollbackKeyedEntities} from '../utils/keyedChanges'
+import {ChangeTracker} from '@subsquid/typeorm-store/lib/hot'
 
 describe('Store', function () {
     describe('.track() (INSERT)', function () {
@@ -63,6 +75,30 @@ describe('Store', function () {
             await store.track(items)
             expect(await store.count(Item)).toEqual(items.length)
         })
+
+        it('splits inserts into batches of configured size', async function () {
+            let store = await createStore({batchSizes: {Item: 3}})
+            let items: Item[] = []
+            for (let i = 0; i < 10; i++) {
+                items.push(new Item('' + i))
+            }
+
+            let insertCalls = 0
+            const em = (store as any).em
+            const origInsert = em.insert.bind(em)
+            em.insert = async (...args: any[]) => {
+                insertCalls++
+                return origInsert(...args)
+            }
+
+            await store.track(items)
+            await store.sync()
+            expect(insertCalls).toEqual(4)
+
+            em.insert = origInsert
+
+            expect(await store.count(Item)).toEqual(items.length)
+        })
     })
 
     describe('Auto upsert (touched + dirty)', function () {
@@ -102,6 +138,37 @@ describe('Store', function () {
             em.upsert = origUpsert
         })
 
+        it('updates only changed columns of a loaded row', async function () {
+            let store = await createStore()
+            await store.track(new Item('1', 'a'))
+            await store.track(new Item('2', 'b'))
+            await store.track(new Order({id: '1', qty: 1, item: new Item('1')}))
+            await store.flush()
+
+            const order = assertNotNull(await store.get(Order, '1'))
+
+            // a foreign writer changes another column of the same row
+            const em = (store as any).em
+            await em.query(`UPDATE "order" SET item_id = '2' WHERE id = '1'`)
+
+            let upsertCalls = 0
+            const origUpsert = em.upsert.bind(em)
+            em.upsert = async (...args: any[]) => {
+                upsertCalls++
+                return origUpsert(...args)
+            }
+
+            order.qty = 5
+            await store.flush()
+            expect(upsertCalls).toEqual(0)
+
+            em.upsert = origUpsert
+
+            await expect(em.query(`SELECT id, item_id, qty FROM "order"`)).resolves.toEqual([
+                {id: '1', item_id: '2', qty: 5},
+            ])
+        })
+
         it('preserves canonical instance and mutations across a JOIN re-traversal', async function () {
             // Regression: cacheMap.add({fromQuery: true}) used to replace an
             // already-cached instance with a freshly-loaded one and reset its
@@ -172,6 +239,114 @@ describe('Store', function () {
         })
     })
 
+    describe('Dirty detection', function () {
+        useDatabase([
+            `CREATE TABLE item (id text primary key , name text)`,
+            `CREATE TABLE data (id text primary key, text text, text_array text[], integer int4, integer_array int4[], big_integer numeric, date_time timestamptz, bytes bytea, json jsonb, item_id text REFERENCES item)`,
+            `INSERT INTO item (id, name) values ('1', 'a')`,
+            `INSERT INTO data (id, text, text_array, integer, integer_array, big_integer, date_time, bytes, json, item_id) ` +
+                `values ('1', 'a', '{x,y}', 1, '{1,2}', 100, '2020-01-01T00:00:00.000Z', '\\x0001', '{"a": [1, "b"]}', '1')`,
+        ])
+
+        it('detects in-place mutations', async function () {
+            const collector = new ChangeCollector()
+            let store = await createStore({collector})
+            let data = assertNotNull(await store.get(Data, '1'))
+            data.textArray!.push('z')
+            data.integerArray![0] = 5
+            data.bytes![1] = 2
+            ;(data.json as any).a.push('c')
+            data.dateTime!.setFullYear(2021)
+            await store.flush()
+
+            expect(collector.getChanges()).toEqual({Data: {inserted: [], upserted: ['1'], deleted: []}})
+            store = await createStore()
+            await expect(store.get(Data, '1')).resolves.toMatchObject({
+                textArray: ['x', 'y', 'z'],
+                integerArray: [5, 2],
+                bytes: Buffer.from([0, 2]),
+                json: {a: [1, 'b', 'c']},
+                dateTime: new Date('2021-01-01T00:00:00.000Z'),
+            })
+        })
+
+        it('ignores re-assigned equal values', async function () {
+            const collector = new ChangeCollector()
+            let store = await createStore({collector})
+            let data = assertNotNull(await store.get(Data, '1'))
+            data.textArray = ['x', 'y']
+            data.integerArray = [1, 2]
+            data.bigInteger = 100n
+            data.bytes = new Uint8Array([0, 1])
+            data.json = {a: [1, 'b']}
+            data.dateTime = new Date('2020-01-01T00:00:00.000Z')
+            await store.flush()
+
+            expect(collector.getChanges()).toEqual({})
+        })
+    })
+
+    describe('Property change tracking', function () {
+        useDatabase([
+            `CREATE TABLE item (id text primary key , name text)`,
+            `CREATE TABLE "order" (id text primary key, item_id text REFERENCES item, qty int4)`,
+            `INSERT INTO item (id, name) values ('1', 'a')`,
+            `INSERT INTO item (id, name) values ('2', 'b')`,
+            `INSERT INTO "order" (id, item_id, qty) values ('1', '1', 3)`,
+        ])
+
+        async function createTrackingStore(collector?: ChangeCollector) {
+            const em = await getEntityManager()
+            const state = new StateManager({connection: em.connection, changeTracking: 'accessors'})
+            return await createStore({state, collector})
+        }
+
+        it('writes assigned columns only', async function () {
+            const collector = new ChangeCollector()
+            let store = await createTrackingStore(collector)
+            let order = await store.findOneOrFail(Order, {where: {id: '1'}, relations: {item: true}})
+            await store.get(Item, '2')
+            order.qty = 3
+            order.item = new Item('2')
+
+            const em = await getEntityManager()
+            await em.query(`UPDATE "order" SET qty = 5 WHERE id = '1'`)
+            await store.flush()
+
+            expect(collector.getChanges()).toEqual({Order: {inserted: [], upserted: ['1'], deleted: []}})
+            await expect(em.query(`SELECT id, item_id, qty FROM "order"`)).resolves.toEqual([
+                {id: '1', item_id: '2', qty: 5},
+            ])
+        })
+
+        it('tracks entities after they are written', async function () {
+            let store = await createTrackingStore()
+            let item = new Item('3', 'c')
+            await store.track(item)
+            await store.sync()
+            item.name = 'd'
+            await store.flush()
+
+            store = await createStore()
+            await expect(store.get(Item, '3')).resolves.toEqual({id: '3', name: 'd'})
+        })
+
+        it('detects changes of embedded properties', async function () {
+            const em = await getEntityManager()
+            await em.query(`CREATE TABLE place (id text primary key, locationx int4, locationy int4)`)
+            await em.query(`INSERT INTO place (id, locationx, locationy) values ('1', 1, 2)`)
+
+            let store = await createTrackingStore()
+            const place = assertNotNull(await store.get(Place, '1'))
+            place.location.x = 5
+            await store.flush()
+
+            await expect(em.query(`SELECT id, locationx, locationy FROM place`)).resolves.toEqual([
+                {id: '1', locationx: 5, locationy: 2},
+            ])
+        })
+    })
+
     describe('get cached null (non-existent entity)', function () {
         useDatabase([
             `CREATE TABLE item (id text primary key, name text)`,
@@ -236,36 +411,1168 @@ describe('Store', function () {
         })
     })
 
-    describe('.remove()', function () {
+    describe('COPY', function () {
+        useDatabase([
+            `CREATE TABLE item (id text primary key , name text)`,
+            `CREATE TABLE data (id text primary key, text text, text_array text[], integer int4, integer_array int4[], big_integer numeric, date_time timestamptz, bytes bytea, json jsonb, item_id text REFERENCES item)`,
+            `INSERT INTO item (id, name) values ('1', 'a')`,
+        ])
+
+        it('inserts entities of every column type', async function () {
+            let store = await createStore({copyThreshold: 2})
+            let data = [
+                new Data({
+                    id: '1',
+                    text: 'a "quoted", text\nwith \\ backslash',
+                    textArray: ['x', 'y "z"', '', 'NULL'],
+                    integer: 1,
+                    integerArray: [1, 2],
+                    bigInteger: 10n ** 30n,
+                    dateTime: new Date('2020-01-01T00:00:00.123Z'),
+                    bytes: new Uint8Array([0, 1, 255]),
+                    json: {a: [1, 'b']},
+                    item: new Item('1'),
+                }),
+                new Data({
+                    id: '2',
+                    text: '',
+                    textArray: null,
+                    integer: null,
+                    integerArray: [],
+                    bigInteger: null,
+                    dateTime: null,
+                    bytes: null,
+                    json: null,
+                    item: null,
+                }),
+            ]
+            await store.track(data)
+            await store.flush()
+
+            let rows = await store.find(Data, {where: {}, order: {id: 'ASC'}, cacheEntities: false})
+            expect(rows.map((r) => ({...r, bytes: r.bytes && [...r.bytes]}))).toEqual([
+                {...data[0], item: undefined, bytes: [0, 1, 255]},
+                {...data[1], item: undefined, integerArray: [], bytes: null},
+            ])
+        })
+
+        it('upserts entities through a staging table', async function () {
+            let store = await createStore({copyThreshold: 2})
+            await store.track([new Item('2', 'b'), new Item('3', 'c')])
+            await store.track([new Item('1', 'x'), new Item('2', 'y'), new Item('4', 'z')], {replace: true})
+            await store.flush()
+            await expect(store.find(Item, {where: {}, order: {id: 'ASC'}})).resolves.toEqual([
+                {id: '1', name: 'x'},
+                {id: '2', name: 'y'},
+                {id: '3', name: 'c'},
+                {id: '4', name: 'z'},
+            ])
+        })
+    })
+
+    describe('Bounded cache', function () {
+        useDatabase([
+            `CREATE TABLE item (id text primary key , name text)`,
+            `CREATE TABLE "order" (id text primary key, item_id text REFERENCES item, qty int4)`,
+        ])
+
+        it('evicts least recently used entities on commit', async function () {
+            const em = await getEntityManager()
+            const state = new StateManager({connection: em.connection, cacheLimits: {maxSize: 2}})
+            let store = await createStore({state})
+            await store.track([new Item('1', 'a'), new Item('2', 'b'), new Item('3', 'c')])
+            await store.sync()
+            await store.get(Item, '1')
+            state.commit()
+
+            expect(state.isExists(Item, '1')).toBe(true)
+            expect(state.isExists(Item, '2')).toBe(false)
+            expect(state.isExists(Item, '3')).toBe(true)
+        })
+
+        it('applies per entity limits', async function () {
+            const em = await getEntityManager()
+            const state = new StateManager({connection: em.connection, cacheLimits: {maxSizes: {Order: 1}}})
+            let store = await createStore({state})
+            const item = new Item('1', 'a')
+            await store.track([item, new Item('2', 'b')])
+            await store.track([new Order({id: '1', qty: 1, item}), new Order({id: '2', qty: 2, item})])
+            await store.sync()
+            state.commit()
+
+            expect(state.isExists(Item, '1')).toBe(true)
+            expect(state.isExists(Item, '2')).toBe(true)
+            expect(state.isExists(Order, '1')).toBe(false)
+            expect(state.isExists(Order, '2')).toBe(true)
+        })
+
+        it('does not evict entities with pending changes', async function () {
+            const em = await getEntityManager()
+            const state = new StateManager({connection: em.connection, cacheLimits: {maxSize: 0}})
+            let store = await createStore({state})
+            await store.track([new Item('1', 'a'), new Item('2', 'b')])
+            state.commit()
+
+            expect(state.isExists(Item, '1')).toBe(true)
+            expect(state.isExists(Item, '2')).toBe(true)
+
+            await store.sync()
+            state.commit()
+
+            expect(state.isExists(Item, '1')).toBe(false)
+            expect(state.isExists(Item, '2')).toBe(false)
+        })
+
+        it('keeps entities read in the committed batch', async function () {
+            const em = await getEntityManager()
+            const state = new StateManager({connection: em.connection, cacheLimits: {maxSize: 0}})
+            let store = await createStore({state})
+            await store.track(new Item('1', 'a'))
+            await store.sync()
+            await store.get(Item, '1')
+            state.commit()
+
+            expect(state.isExists(Item, '1')).toBe(true)
+
+            state.commit()
+
+            expect(state.isExists(Item, '1')).toBe(false)
+        })
+    })
+
+    describe('Hot block rollback', function () {
+        useDatabase([
+            `CREATE TABLE item (id text primary key , name text)`,
+            `INSERT INTO item (id, name) values ('1', 'a')`,
+        ])
+
+        it('evicts entities written in the rolled back block', async function () {
+            const em = await getEntityManager()
+            const state = new StateManager({connection: em.connection})
+            let store = await createStore({state})
+
+            const item = assertNotNull(await store.get(Item, '1'))
+            state.setHotBlock(10)
+            item.name = 'b'
+            await store.track(new Item('2', 'c'))
+            await store.sync()
+            state.setHotBlock(undefined)
+            state.commit()
+
+            await em.query(`UPDATE item SET name = 'a' WHERE id = '1'`)
+            await em.query(`DELETE FROM item WHERE id = '2'`)
+            state.rollbackBlock(10)
+
+            store = await createStore({state})
+            await expect(store.get(Item, '1')).resolves.toEqual({id: '1', name: 'a'})
+            await expect(store.get(Item, '2')).resolves.toBeUndefined()
+        })
+
+        it('keeps entities written in finalized blocks', async function () {
+            const em = await getEntityManager()
+            const state = new StateManager({connection: em.connection})
+            let store = await createStore({state})
+
+            state.setHotBlock(10)
+            await store.track(new Item('2', 'c'))
+            await store.sync()
+            state.setHotBlock(undefined)
+            state.commit()
+
+            state.finalizeBlocks(10)
+            state.rollbackBlock(10)
+
+            expect(state.isExists(Item, '2')).toBe(true)
+        })
+    })
+
+    describe('.findIterator()', function () {
         useDatabase([
             `CREATE TABLE item (id text primary key , name text)`,
             `INSERT INTO item (id, name) values ('1', 'a')`,
             `INSERT INTO item (id, name) values ('2', 'b')`,
             `INSERT INTO item (id, name) values ('3', 'c')`,
+            `INSERT INTO item (id, name) values ('4', 'd')`,
+            `INSERT INTO item (id, name) values ('5', 'e')`,
         ])
 
-        it('remove by passing an entity', async function () {
+        it('iterates over all entities page by page', async function () {
             let store = await createStore()
-            await store.delete(Item, '1')
-            await expect(getItemIds(store)).resolves.toEqual(['2', '3'])
+            let items: Item[] = []
+            for await (const item of store.findIterator(Item, {pageSize: 2})) {
+                items.push(item)
+            }
+            expect(items.map((i) => i.id)).toEqual(['1', '2', '3', '4', '5'])
         })
 
-        it('remove by passing an array of entities', async function () {
+        it('applies where condition', async function () {
             let store = await createStore()
-            await store.delete(Item, ['1', '3'])
-            await expect(getItemIds(store)).resolves.toEqual(['2'])
+            let items: Item[] = []
+            for await (const item of store.findIterator(Item, {where: [{name: 'b'}, {id: '4'}], pageSize: 1})) {
+                items.push(item)
+            }
+            expect(items.map((i) => i.id)).toEqual(['2', '4'])
         })
 
-        it('remove by passing an id', async function () {
+        it('returns cached instances with pending changes', async function () {
             let store = await createStore()
-            await store.delete(Item, '1')
-            await expect(getItemIds(store)).resolves.toEqual(['2', '3'])
+            const cached = assertNotNull(await store.get(Item, '3'))
+            cached.name = 'x'
+            await store.track(new Item('6', 'f'))
+
+            let items: Item[] = []
+            for await (const item of store.findIterator(Item, {where: {name: In(['c', 'x', 'f'])}, pageSize: 2})) {
+                items.push(item)
+            }
+            expect(items).toEqual([
+                {id: '3', name: 'x'},
+                {id: '6', name: 'f'},
+            ])
+            expect(items[0]).toBe(cached)
         })
 
-        it('remove by passing an array of ids', async function () {
+        it('does not cache scanned entities if asked', async function () {
             let store = await createStore()
-            await store.delete(Item, ['1', '2'])
-            await expect(getItemIds(store)).resolves.toEqual(['3'])
+            for await (const _ of store.findIterator(Item, {cacheEntities: false})) {
+            }
+            expect(store['state'].isExists(Item, '1')).toBe(false)
+        })
+    })
+
+    describe('Raw queries', function () {
+        useDatabase([
+            `CREATE TABLE item (id text primary key , name text)`,
+            `INSERT INTO item (id, name) values ('1', 'a')`,
+        ])
+
+        it('syncs pending changes before a query', async function () {
+            let store = await createStore()
+            await store.track(new Item('2', 'b'))
+            await expect(store.query(`SELECT count(*)::int AS count FROM item`)).resolves.toEqual([{count: 2}])
+        })
+
+        it('invalidates cache of affected entities', async function () {
+            let store = await createStore()
+            const item = assertNotNull(await store.get(Item, '1'))
+            await store.query(`UPDATE item SET name = $1`, ['x'], {affects: [Item]})
+            const reloaded = await store.get(Item, '1')
+            expect(reloaded).toEqual({id: '1', name: 'x'})
+            expect(reloaded).not.toBe(item)
+        })
+
+        it('syncs pending changes before a query builder runs', async function () {
+            let store = await createStore()
+            const qb = store.createQueryBuilder(Item, 'i').select('max(i.name)', 'name')
+            await store.track(new Item('2', 'b'))
+            await expect(qb.getRawMany()).resolves.toEqual([{name: 'b'}])
+        })
+    })
+
+    describe('Lookup by unique columns', function () {
+        useDatabase([
+            `CREATE TABLE item (id text primary key , name text unique)`,
+            `INSERT INTO item (id, name) values ('1', 'a')`,
+            `INSERT INTO item (id, name) values ('2', 'b')`,
+        ])
+
+        it('gets entity by column and serves repeated lookups from cache', async function () {
+            let store = await createStore()
+            const item = await store.getBy(Item, {name: 'a'})
+            expect(item).toEqual({id: '1', name: 'a'})
+
+            const em = (store as any).em
+            const origFindOne = em.findOne.bind(em)
+            em.findOne = async () => {
+                throw new Error('unexpected query')
+            }
+
+            await expect(store.getBy(Item, {name: 'a'})).resolves.toBe(item)
+            await expect(store.get(Item, '1')).resolves.toBe(item)
+
+            em.findOne = origFindOne
+        })
+
+        it('batches deferred lookups into a single query', async function () {
+            let store = await createStore()
+
+            let findCalls = 0
+            const em = (store as any).em
+            const origFind = em.find.bind(em)
+            em.find = async (...args: any[]) => {
+                findCalls++
+                return origFind(...args)
+            }
+
+            const a = store.defer(Item, {by: {name: 'a'}})
+            const b = store.defer(Item, {by: {name: 'b'}})
+            const c = store.defer(Item, {by: {name: 'c'}})
+            await expect(a.get()).resolves.toEqual({id: '1', name: 'a'})
+            await expect(b.get()).resolves.toEqual({id: '2', name: 'b'})
+            await expect(c.get()).resolves.toBeUndefined()
+            expect(findCalls).toEqual(1)
+
+            em.find = origFind
+        })
+
+        it('finds tracked entities', async function () {
+            let store = await createStore()
+            await expect(store.getBy(Item, {name: 'c'})).resolves.toBeUndefined()
+            const item = new Item('3', 'c')
+            await store.track(item)
+            await expect(store.getBy(Item, {name: 'c'})).resolves.toBe(item)
+        })
+    })
+
+    describe('.getMany()', function () {
+        useDatabase([
+            `CREATE TABLE item (id text primary key , name text)`,
+            `INSERT INTO item (id, name) values ('1', 'a')`,
+            `INSERT INTO item (id, name) values ('2', 'b')`,
+        ])
+
+        it('queries only missing ids', async function () {
+            let store = await createStore()
+            const cached = assertNotNull(await store.get(Item, '1'))
+            const created = new Item('3', 'c')
+            await store.track(created)
+
+            let queriedIds: string[] = []
+            const em = (store as any).em
+            const origFind = em.find.bind(em)
+            em.find = async (target: any, options: any) => {
+                queriedIds.push(...options.where.id.value)
+                return origFind(target, options)
+            }
+
+            const res = await store.getMany(Item, ['3', '2', '1', '4'])
+            expect([...res.keys()]).toEqual(['3', '2', '1', '4'])
+            expect(res.get('1')).toBe(cached)
+            expect(res.get('2')).toEqual({id: '2', name: 'b'})
+            expect(res.get('3')).toBe(created)
+            expect(res.get('4')).toBeUndefined()
+            expect(queriedIds).toEqual(['2', '4'])
+
+            queriedIds = []
+            await store.getMany(Item, ['2', '4'])
+            expect(queriedIds).toEqual([])
+
+            em.find = origFind
+        })
+    })
+
+    describe('Entity hooks', function () {
+        useDatabase([
+            `CREATE TABLE item (id text primary key , name text)`,
+            `INSERT INTO item (id, name) values ('1', 'a')`,
+            `INSERT INTO item (id, name) values ('2', 'b')`,
+            `CREATE TABLE tag (id text primary key)`,
+            `INSERT INTO tag (id) values ('t1')`,
+            `CREATE TABLE article (id text primary key)`,
+            `CREATE TABLE article_tag (article_id text REFERENCES article ON DELETE CASCADE, tag_id text REFERENCES tag ON DELETE CASCADE, primary key (article_id, tag_id))`,
+        ])
+
+        it('invokes hooks around sync', async function () {
+            const em = await getEntityManager()
+            const state = new StateManager({connection: em.connection})
+            const calls: [string, string, ChangeType][] = []
+            state.addHooks(Item, {
+                beforeInsert: (e, type) => {
+                    calls.push(['beforeInsert', e.id, type])
+                    e.name = e.name?.toUpperCase()
+                },
+                beforeUpsert: (e, type) => {
+                    calls.push(['beforeUpsert', e.id, type])
+                    e.name = e.name?.toUpperCase()
+                },
+                beforeDelete: (id, type) => {
+                    calls.push(['beforeDelete', id, type])
+                },
+                afterSync: (e, type) => {
+                    calls.push(['afterSync', typeof e === 'string' ? e : e.id, type])
+                },
+            })
+            let store = await createStore({state})
+
+            const item = assertNotNull(await store.get(Item, '1'))
+            item.name = 'x'
+            await store.track(new Item('3', 'c'))
+            await store.delete(Item, '2')
+            await store.flush()
+
+            expect(calls).toEqual([
+                ['beforeInsert', '3', ChangeType.Insert],
+                ['beforeDelete', '2', ChangeType.Delete],
+                ['beforeUpsert', '1', ChangeType.Update],
+                ['afterSync', '3', ChangeType.Insert],
+                ['afterSync', '2', ChangeType.Delete],
+                ['afterSync', '1', ChangeType.Update],
+            ])
+            await expect(store.find(Item, {order: {id: 'ASC'}})).resolves.toEqual([
+                {id: '1', name: 'X'},
+                {id: '3', name: 'C'},
+            ])
+        })
+
+        it('skips after-sync hooks of unchanged entities', async function () {
+            const em = await getEntityManager()
+            const state = new StateManager({connection: em.connection})
+            const calls: string[] = []
+            state.addHooks(Item, {
+                beforeUpsert: (e) => {
+                    e.name = 'a'
+                },
+                afterSync: (e) => {
+                    calls.push(typeof e === 'string' ? e : e.id)
+                },
+            })
+            let store = await createStore({state})
+
+            const item = assertNotNull(await store.get(Item, '1'))
+            item.name = 'x'
+            await store.flush()
+
+            expect(calls).toEqual([])
+        })
+
+        it('writes links set by before hooks', async function () {
+            const em = await getEntityManager()
+            const state = new StateManager({connection: em.connection})
+            state.addHooks(Article, {
+                beforeInsert: (e) => {
+                    e.tags = [new Tag('t1')]
+                },
+            })
+            let store = await createStore({state})
+
+            await store.track(new Article({id: 'a1', tags: []}))
+            await store.flush()
+
+            await expect(em.query(`SELECT article_id, tag_id FROM article_tag`)).resolves.toEqual([
+                {article_id: 'a1', tag_id: 't1'},
+            ])
+        })
+    })
+
+    describe('Change collector', function () {
+        useDatabase([
+            `CREATE TABLE item (id text primary key , name text)`,
+            `INSERT INTO item (id, name) values ('1', 'a')`,
+            `INSERT INTO item (id, name) values ('2', 'b')`,
+        ])
+
+        it('collects ids of applied changes', async function () {
+            const collector = new ChangeCollector()
+            let store = await createStore({collector})
+
+            const item = assertNotNull(await store.get(Item, '1'))
+            item.name = 'x'
+            await store.track(new Item('3', 'c'))
+            await store.delete(Item, '2')
+            await store.flush()
+
+            expect(collector.getChanges()).toEqual({
+                Item: {inserted: ['3'], upserted: ['1'], deleted: ['2']},
+            })
+        })
+    })
+
+    describe('Dry run', function () {
+        useDatabase([
+            `CREATE TABLE item (id text primary key , name text)`,
+            `INSERT INTO item (id, name) values ('1', 'a')`,
+            `INSERT INTO item (id, name) values ('2', 'b')`,
+            `CREATE TABLE data (id text primary key, text text, text_array text[], integer int4, integer_array int4[], big_integer numeric, date_time timestamptz, bytes bytea, json jsonb, item_id text REFERENCES item)`,
+        ])
+
+        it('records change sets without writing them', async function () {
+            const dryRun: ChangeSet[] = []
+            let store = await createStore({dryRun})
+
+            const item = assertNotNull(await store.get(Item, '1'))
+            item.name = 'x'
+            await store.track(new Item('3', 'c'))
+            await store.deleteWhere(Item, {id: '2'})
+            await store.flush()
+            item.name = 'y'
+
+            expect(dryRun.map((cs) => cs.type)).toEqual([ChangeType.Insert, ChangeType.Update, ChangeType.Delete])
+            expect(dryRun[0]).toMatchObject({entities: [{id: '3', name: 'c'}]})
+            expect(dryRun[1]).toMatchObject({entities: [{id: '1', name: 'x'}]})
+            expect(dryRun[2]).toMatchObject({ids: ['2']})
+            store = await createStore()
+            await expect(getItemIds(store)).resolves.toEqual(['1', '2'])
+            await expect(store.get(Item, '1')).resolves.toEqual({id: '1', name: 'a'})
+        })
+
+        it('records copies of written entities', async function () {
+            const dryRun: ChangeSet[] = []
+            let store = await createStore({dryRun})
+
+            const item = assertNotNull(await store.get(Item, '1'))
+            const json = {a: [1]}
+            const data = new Data({id: '1', textArray: ['a'], json, item})
+            await store.track(data)
+            await store.flush()
+            data.textArray!.push('b')
+            json.a.push(2)
+            item.name = 'x'
+
+            expect(dryRun[0]).toMatchObject({entities: [{id: '1', textArray: ['a'], json: {a: [1]}, item: {id: '1'}}]})
+            expect((dryRun[0] as InsertChangeSet).entities[0].item).not.toBe(item)
+        })
+    })
+
+    describe('Change records', function () {
+        useDatabase([
+            `CREATE TABLE item (id text primary key , name text)`,
+            `CREATE TABLE data (id text primary key, text text, text_array text[], integer int4, integer_array int4[], big_integer numeric, date_time timestamptz, bytes bytea, json jsonb, item_id text REFERENCES item)`,
+        ])
+
+        it('replays recorded changes', async function () {
+            const records = new ChangeRecordBuffer()
+            let store = await createStore({records, blockHeight: 2})
+            await store.track(new Item('1', 'a'))
+            await store.track(new Item('2', 'b'))
+            await store.track(
+                new Data({
+                    id: '1',
+                    text: 'a',
+                    textArray: ['x'],
+                    integer: 1,
+                    integerArray: [1, 2],
+                    bigInteger: 100n,
+                    dateTime: new Date('2020-01-01T00:00:00.000Z'),
+                    bytes: new Uint8Array([0, 1]),
+                    json: {a: [1, 'b']},
+                    item: new Item('1'),
+                })
+            )
+            await store.flush()
+            const data = assertNotNull(await store.get(Data, '1'))
+            data.text = 'b'
+            await store.delete(Item, '2')
+            await store.flush()
+
+            const output = new PassThrough()
+            const recorder = new NdjsonRecorder(output)
+            await recorder.stage(records.getRecords(1, 2, 2), 1)
+            await recorder.commit()
+            await recorder.close()
+
+            const em = await getEntityManager()
+            const getRows = async () => [
+                await em.query(`SELECT * FROM item ORDER BY id`),
+                await em.query(`SELECT * FROM data ORDER BY id`),
+            ]
+            const expected = await getRows()
+            await em.query(`DELETE FROM data`)
+            await em.query(`DELETE FROM item`)
+
+            await expect(replay(em, output)).resolves.toEqual(4)
+            await expect(getRows()).resolves.toEqual(expected)
+        })
+
+        it('skips rolled back changes and replays raw SQL patches', async function () {
+            const unfinalized = new ChangeRecordBuffer()
+            let store = await createStore({records: unfinalized, blockHeight: 1})
+            await store.track(new Item('1', 'a'))
+            await store.flush()
+
+            const finalized = new ChangeRecordBuffer()
+            finalized.addRollback(1)
+            store = await createStore({records: finalized, blockHeight: 1})
+            await store.track(new Item('2', 'b'))
+            await store.flush()
+            await store.updateWhere(Item, {id: '2'}, {name: () => `'x' || name`})
+
+            const output = new PassThrough()
+            output.end(
+                [...unfinalized.getRecords(1, 1, 0), ...finalized.getRecords(1, 1, 1)]
+                    .map((r) => JSON.stringify(r) + '\n')
+                    .join('')
+            )
+
+            const em = await getEntityManager()
+            await em.query(`DELETE FROM item`)
+            await expect(replay(em, output)).resolves.toEqual(2)
+            await expect(em.query(`SELECT * FROM item`)).resolves.toEqual([{id: '2', name: 'xb'}])
+        })
+
+        it('publishes staged records of committed transactions only', async function () {
+            const dir = await mkdtemp(join(tmpdir(), 'records-'))
+            const file = join(dir, 'records.ndjson')
+            const records: ChangeRecord[] = [{from: 1, to: 1, height: 1, finalized: 1, type: 'delete', entity: 'Item', ids: ['1']}]
+
+            let recorder = new NdjsonRecorder(file)
+            await recorder.stage(records, 1)
+            await new NdjsonRecorder(file).recover(0)
+            expect(existsSync(file + '.staged')).toBe(false)
+            expect(existsSync(file)).toBe(false)
+
+            await recorder.stage(records, 1)
+            await new NdjsonRecorder(file).recover(1)
+            await recorder.stage([{...records[0], from: 2, to: 2}], 2)
+            await recorder.commit()
+            const lines = (await readFile(file, 'utf8')).trim().split('\n')
+            expect(lines.map((l) => JSON.parse(l).from)).toEqual([1, 2])
+            await rm(dir, {recursive: true})
+        })
+
+        it('rejects commits to failed streams', async function () {
+            const output = new Writable({
+                write(chunk, encoding, cb) {
+                    cb(new Error('disk full'))
+                },
+            })
+            const recorder = new NdjsonRecorder(output)
+            await recorder.stage([{from: 1, to: 1, height: 1, finalized: 1, type: 'rollback'}], 1)
+            await expect(recorder.commit()).rejects.toThrow('disk full')
+        })
+    })
+
+    describe('Outbox', function () {
+        useDatabase([
+            `CREATE TABLE item (id text primary key , name text)`,
+            `INSERT INTO item (id, name) values ('1', 'a')`,
+            `INSERT INTO item (id, name) values ('2', 'b')`,
+            `CREATE SCHEMA squid_processor`,
+            `CREATE TABLE squid_processor.outbox (id bigserial primary key, block_height int4 not null, ` +
+                `entity text, entity_id text, change_type text not null, columns text[])`,
+        ])
+
+        it('records applied changes in the same transaction', async function () {
+            const em = await getEntityManager()
+            let store = await createStore({outbox: new OutboxWriter(em, 'squid_processor', 5, true)})
+
+            const item = assertNotNull(await store.get(Item, '1'))
+            item.name = 'x'
+            await store.track(new Item('3', 'c'))
+            await store.delete(Item, '2')
+            await store.flush()
+
+            const rows = await em.query(
+                `SELECT block_height, entity, entity_id, change_type, columns FROM squid_processor.outbox ORDER BY id`
+            )
+            expect(rows).toEqual([
+                {block_height: 5, entity: 'Item', entity_id: '3', change_type: 'insert', columns: null},
+                {block_height: 5, entity: 'Item', entity_id: '1', change_type: 'update', columns: ['name']},
+                {block_height: 5, entity: 'Item', entity_id: '2', change_type: 'delete', columns: null},
+            ])
+        })
+    })
+
+    describe('Soft delete', function () {
+        useDatabase([
+            `CREATE TABLE account (id text primary key, name text, deleted_at_block int4, deleted_at timestamptz)`,
+            `INSERT INTO account (id, name) values ('1', 'a')`,
+            `INSERT INTO account (id, name) values ('2', 'b')`,
+            `INSERT INTO account (id, name, deleted_at_block) values ('3', 'c', 1)`,
+        ])
+
+        async function createSoftDeleteStore() {
+            const em = await getEntityManager()
+            const state = new StateManager({connection: em.connection})
+            state.setSoftDelete(Account, 'deletedAtBlock')
+            return createStore({state, blockHeight: 10})
+        }
+
+        it('marks deleted rows instead of deleting them', async function () {
+            let store = await createSoftDeleteStore()
+            await store.delete(Account, '1')
+            await store.flush()
+
+            const em = await getEntityManager()
+            await expect(em.query(`SELECT id, deleted_at_block FROM account ORDER BY id`)).resolves.toEqual([
+                {id: '1', deleted_at_block: 10},
+                {id: '2', deleted_at_block: null},
+                {id: '3', deleted_at_block: 1},
+            ])
+        })
+
+        it('marks rows with the block timestamp', async function () {
+            const em = await getEntityManager()
+            const state = new StateManager({connection: em.connection})
+            state.setSoftDelete(Account, 'deletedAt')
+            let store = await createStore({state, blockHeight: 10})
+            await store.setBlockHeight(9, 1700000000000)
+            await store.delete(Account, '1')
+            await store.flush()
+
+            await expect(em.query(`SELECT id, deleted_at FROM account WHERE deleted_at IS NOT NULL`)).resolves.toEqual([
+                {id: '1', deleted_at: new Date(1700000000000)},
+            ])
+        })
+
+        it('excludes soft-deleted entities from reads', async function () {
+            let store = await createSoftDeleteStore()
+            await store.delete(Account, '1')
+
+            await expect(store.get(Account, '1')).resolves.toBeUndefined()
+            await expect(store.get(Account, '3')).resolves.toBeUndefined()
+            await expect(store.count(Account)).resolves.toEqual(1)
+            await expect(store.find(Account, {}).then((res) => res.map((a) => a.id))).resolves.toEqual(['2'])
+            await expect(
+                store.find(Account, {withDeleted: true, order: {id: 'ASC'}}).then((res) => res.map((a) => a.id))
+            ).resolves.toEqual(['1', '2', '3'])
+        })
+    })
+
+    describe('History', function () {
+        useDatabase([
+            `CREATE TABLE item (id text primary key , name text)`,
+            `INSERT INTO item (id, name) values ('1', 'a')`,
+        ])
+
+        async function createHistoryStore(state: StateManager, blockHeight: number) {
+            const em = await getEntityManager()
+            await createHistoryTable(em, em.connection.getMetadata(Item))
+            return createStore({state, blockHeight})
+        }
+
+        it('reads versions as of block height', async function () {
+            const em = await getEntityManager()
+            const state = new StateManager({connection: em.connection})
+            state.setHistory(Item)
+
+            let store = await createHistoryStore(state, 10)
+            await store.track(new Item('2', 'b'))
+            const item = assertNotNull(await store.get(Item, '1'))
+            item.name = 'x'
+            await store.flush()
+
+            store = await createHistoryStore(state, 20)
+            await store.delete(Item, '2')
+            await store.track(new Item('1', 'y'), {replace: true})
+            await store.flush()
+
+            await expect(store.findAsOf(Item, 9)).resolves.toEqual([])
+            await expect(store.findAsOf(Item, 15)).resolves.toEqual([
+                {id: '1', name: 'x'},
+                {id: '2', name: 'b'},
+            ])
+            await expect(store.findAsOf(Item, 20)).resolves.toEqual([{id: '1', name: 'y'}])
+            await expect(store.getAsOf(Item, '2', 19)).resolves.toEqual({id: '2', name: 'b'})
+            await expect(store.getAsOf(Item, '2', 20)).resolves.toBeUndefined()
+
+            await rollbackHistory(em, em.connection.getMetadata(Item), 20)
+            await expect(store.findAsOf(Item, 25)).resolves.toEqual([
+                {id: '1', name: 'x'},
+                {id: '2', name: 'b'},
+            ])
+        })
+
+        it('reads versions written by blocks inside a batch', async function () {
+            const em = await getEntityManager()
+            const state = new StateManager({connection: em.connection})
+            state.setHistory(Item)
+
+            let store = await createHistoryStore(state, 10)
+            await store.setBlockHeight(5)
+            const item = assertNotNull(await store.get(Item, '1'))
+            item.name = 'x'
+            await store.setBlockHeight(7)
+            item.name = 'y'
+            await store.flush()
+
+            await expect(store.getAsOf(Item, '1', 4)).resolves.toBeUndefined()
+            await expect(store.getAsOf(Item, '1', 6)).resolves.toEqual({id: '1', name: 'x'})
+            await expect(store.getAsOf(Item, '1', 7)).resolves.toEqual({id: '1', name: 'y'})
+            await expect(store.setBlockHeight(11)).rejects.toThrow()
+        })
+    })
+
+    describe('.increment()', function () {
+        useDatabase([
+            `CREATE TABLE item (id text primary key , name text)`,
+            `CREATE TABLE data (id text primary key, text text, text_array text[], integer int4, integer_array int4[], big_integer numeric, date_time timestamptz, bytes bytea, json jsonb, item_id text REFERENCES item)`,
+            `INSERT INTO data (id, integer, big_integer) values ('1', 1, 10)`,
+            `INSERT INTO data (id, integer) values ('2', 5)`,
+        ])
+
+        it('accumulates deltas of uncached entities', async function () {
+            let store = await createStore()
+            await store.increment(Data, '1', {integer: 2, bigInteger: 5n})
+            await store.increment(Data, '1', {integer: 3})
+            await store.decrement(Data, '2', {integer: 1, bigInteger: 1n})
+            await store.flush()
+
+            const em = await getEntityManager()
+            await expect(em.query(`SELECT id, integer, big_integer FROM data ORDER BY id`)).resolves.toEqual([
+                {id: '1', integer: 6, big_integer: '15'},
+                {id: '2', integer: 4, big_integer: '-1'},
+            ])
+        })
+
+        it('changes cached entities in place', async function () {
+            let store = await createStore()
+            const data = assertNotNull(await store.get(Data, '1'))
+            await store.increment(Data, '1', {integer: 2})
+            await store.track(new Data({id: '3', integer: 1}))
+            await store.increment(Data, '3', {integer: 2})
+            expect(data.integer).toEqual(3)
+            await store.flush()
+
+            const em = await getEntityManager()
+            await expect(em.query(`SELECT id, integer FROM data ORDER BY id`)).resolves.toEqual([
+                {id: '1', integer: 3},
+                {id: '2', integer: 5},
+                {id: '3', integer: 3},
+            ])
+        })
+
+        it('syncs deltas before reads', async function () {
+            let store = await createStore()
+            await store.increment(Data, '2', {integer: 2})
+            await expect(store.get(Data, '2').then((d) => d?.integer)).resolves.toEqual(7)
+        })
+
+        it('rejects deltas of non-existent entities', async function () {
+            let store = await createStore()
+            await store.increment(Data, '2', {integer: 2})
+            await store.increment(Data, '4', {integer: 2})
+            await expect(store.flush()).rejects.toThrow('unable to increment non-existent Data entities: 4')
+        })
+    })
+
+    describe('Bulk update and delete', function () {
+        useDatabase([
+            `CREATE TABLE item (id text primary key , name text)`,
+            `INSERT INTO item (id, name) values ('1', 'a')`,
+            `INSERT INTO item (id, name) values ('2', 'a')`,
+            `INSERT INTO item (id, name) values ('3', 'b')`,
+            `CREATE TABLE place (id text primary key, locationx int4, locationy int4)`,
+            `INSERT INTO place (id, locationx, locationy) values ('1', 1, 2)`,
+        ])
+
+        it('patches cached entities matching the condition', async function () {
+            let store = await createStore()
+            const items = await store.find(Item, {order: {id: 'ASC'}})
+            await store.track(new Item('4', 'a'))
+
+            await expect(store.updateWhere(Item, {name: 'a'}, {name: 'x'})).resolves.toEqual(3)
+            expect(items.map((it) => it.name)).toEqual(['x', 'x', 'b'])
+            await expect(store.get(Item, '4')).resolves.toEqual({id: '4', name: 'x'})
+
+            // patched entities are clean, so the next flush does not write them again
+            await store.flush()
+            await expect(getItems(store).then((items) => items.map((it) => it.name).sort())).resolves.toEqual([
+                'b',
+                'x',
+                'x',
+                'x',
+            ])
+        })
+
+        it('marks cached entities matching the condition as deleted', async function () {
+            let store = await createStore()
+            await store.get(Item, '1')
+            await store.get(Item, '3')
+
+            await expect(store.deleteWhere(Item, {name: 'a'})).resolves.toEqual(2)
+            await expect(store.get(Item, '1')).resolves.toBeUndefined()
+            await expect(store.get(Item, '3')).resolves.toEqual({id: '3', name: 'b'})
+            await expect(getItemIds(store)).resolves.toEqual(['3'])
+        })
+
+        it('reads entities patched with raw SQL values from the database', async function () {
+            let store = await createStore()
+            const item = assertNotNull(await store.get(Item, '2'))
+
+            await store.updateWhere(Item, {id: '2'}, {name: () => `'x' || name`})
+            expect(item.name).toEqual('a')
+            await expect(store.get(Item, '2')).resolves.toEqual({id: '2', name: 'xa'})
+        })
+
+        it('patches embedded properties of cached entities', async function () {
+            let store = await createStore()
+            const place = assertNotNull(await store.get(Place, '1'))
+
+            await store.updateWhere(Place, {id: '1'}, {location: {x: 5}})
+            expect(place.location).toEqual({x: 5, y: 2})
+            await store.flush()
+
+            const em = await getEntityManager()
+            await expect(em.query(`SELECT id, locationx, locationy FROM place`)).resolves.toEqual([
+                {id: '1', locationx: 5, locationy: 2},
+            ])
+        })
+    })
+
+    describe('.remove()', function () {
+        useDatabase([
+            `CREATE TABLE item (id text primary key , name text)`,
+            `INSERT INTO item (id, name) values ('1', 'a')`,
+            `INSERT INTO item (id, name) values ('2', 'b')`,
+            `INSERT INTO item (id, name) values ('3', 'c')`,
+        ])
+
+        it('remove by passing an entity', async function () {
+            let store = await createStore()
+            await store.delete(Item, '1')
+            await expect(getItemIds(store)).resolves.toEqual(['2', '3'])
+        })
+
+        it('remove by passing an array of entities', async function () {
+            let store = await createStore()
+            await store.delete(Item, ['1', '3'])
+            await expect(getItemIds(store)).resolves.toEqual(['2'])
+        })
+
+        it('remove by passing an id', async function () {
+            let store = await createStore()
+            await store.delete(Item, '1')
+            await expect(getItemIds(store)).resolves.toEqual(['2', '3'])
+        })
+
+        it('remove by passing an array of ids', async function () {
+            let store = await createStore()
+            await store.delete(Item, ['1', '2'])
+            await expect(getItemIds(store)).resolves.toEqual(['3'])
+        })
+    })
+
+    describe('Cascade delete', function () {
+        useDatabase([
+            `CREATE TABLE pool (id text primary key)`,
+            `CREATE TABLE position (id text primary key, pool_id text not null REFERENCES pool)`,
+            `CREATE TABLE swap (id text primary key, pool_id text REFERENCES pool)`,
+            `INSERT INTO pool (id) values ('1')`,
+            `INSERT INTO pool (id) values ('2')`,
+            `INSERT INTO position (id, pool_id) values ('1', '1')`,
+            `INSERT INTO position (id, pool_id) values ('2', '2')`,
+            `INSERT INTO swap (id, pool_id) values ('1', '1')`,
+        ])
+
+        it('deletes dependents before their parents', async function () {
+            let store = await createStore()
+            await store.delete(Position, '1')
+            await store.delete(Pool, '1')
+            await store.track(new Position({id: '3', pool: new Pool('2')}))
+            await store.delete(Swap, '1')
+            await store.flush()
+
+            await expect(store.find(Pool, {})).resolves.toEqual([{id: '2'}])
+        })
+
+        it('deletes and nulls out dependents', async function () {
+            let store = await createStore()
+            await store.get(Position, '1')
+            await store.delete(Pool, '1', {cascade: true})
+
+            await expect(store.get(Position, '1')).resolves.toBeUndefined()
+            await store.flush()
+
+            const em = await getEntityManager()
+            await expect(em.query(`SELECT id FROM pool`)).resolves.toEqual([{id: '2'}])
+            await expect(em.query(`SELECT id FROM position`)).resolves.toEqual([{id: '2'}])
+            await expect(em.query(`SELECT id, pool_id FROM swap`)).resolves.toEqual([{id: '1', pool_id: null}])
+        })
+    })
+
+    describe('Many-to-many', function () {
+        useDatabase([
+            `CREATE TABLE tag (id text primary key)`,
+            `CREATE TABLE article (id text primary key)`,
+            `CREATE TABLE article_tag (article_id text REFERENCES article ON DELETE CASCADE, tag_id text REFERENCES tag ON DELETE CASCADE, primary key (article_id, tag_id))`,
+            `INSERT INTO tag (id) values ('1')`,
+            `INSERT INTO tag (id) values ('2')`,
+            `INSERT INTO tag (id) values ('3')`,
+            `INSERT INTO article (id) values ('1')`,
+            `INSERT INTO article_tag (article_id, tag_id) values ('1', '1')`,
+            `INSERT INTO article_tag (article_id, tag_id) values ('1', '2')`,
+        ])
+
+        async function getLinks() {
+            const em = await getEntityManager()
+            return em.query(`SELECT article_id, tag_id FROM article_tag ORDER BY article_id, tag_id`)
+        }
+
+        it('inserts links of new entities', async function () {
+            let store = await createStore()
+            await store.track(new Article({id: '2', tags: [new Tag('2'), new Tag('3')]}))
+            await store.flush()
+
+            await expect(getLinks()).resolves.toEqual([
+                {article_id: '1', tag_id: '1'},
+                {article_id: '1', tag_id: '2'},
+                {article_id: '2', tag_id: '2'},
+                {article_id: '2', tag_id: '3'},
+            ])
+        })
+
+        it('writes the difference with loaded links', async function () {
+            let store = await createStore()
+            let article = await store.findOneOrFail(Article, {where: {id: '1'}, relations: {tags: true}})
+            article.tags = article.tags.filter((t) => t.id !== '1').concat(new Tag('3'))
+            await store.flush()
+
+            await expect(getLinks()).resolves.toEqual([
+                {article_id: '1', tag_id: '2'},
+                {article_id: '1', tag_id: '3'},
+            ])
+        })
+
+        it('replaces links which were not loaded', async function () {
+            let store = await createStore()
+            await store.track(new Article({id: '1', tags: [new Tag('3')]}), {replace: true})
+            await store.flush()
+
+            await expect(getLinks()).resolves.toEqual([{article_id: '1', tag_id: '3'}])
+        })
+    })
+
+    describe('Composite and non-string keys', function () {
+        useDatabase([
+            `CREATE TABLE balance (chain_id int4, address text, amount int4 not null, primary key (chain_id, address))`,
+            `CREATE TABLE block (height int8 primary key, hash text not null)`,
+            `INSERT INTO balance (chain_id, address, amount) values (1, 'a', 10)`,
+            `INSERT INTO balance (chain_id, address, amount) values (2, 'a', 20)`,
+            `INSERT INTO block (height, hash) values (1, '0x1')`,
+            `CREATE SCHEMA squid_processor`,
+            `CREATE TABLE squid_processor.hot_block (height int4 primary key, hash text not null)`,
+            `CREATE TABLE squid_processor.hot_entity_log (id bigserial primary key, ` +
+                `block_height int4 not null references squid_processor.hot_block on delete cascade, ` +
+                `entity text not null, entity_key jsonb not null, data jsonb)`,
+            `INSERT INTO squid_processor.hot_block (height, hash) values (10, '0xa')`,
+        ])
+
+        it('reads and writes entities by composite keys', async function () {
+            let store = await createStore()
+            let balance = assertNotNull(await store.get(Balance, {chainId: 1, address: 'a'}))
+            balance.amount += 5
+            await store.track(new Balance({chainId: 1, address: 'b', amount: 1}))
+            await store.delete(Balance, {chainId: 2, address: 'a'})
+            await store.flush()
+
+            await expect(store.get(Balance, {chainId: 2, address: 'a'})).resolves.toBeUndefined()
+            const em = await getEntityManager()
+            await expect(em.query(`SELECT chain_id, address, amount FROM balance ORDER BY chain_id, address`)).resolves.toEqual([
+                {chain_id: 1, address: 'a', amount: 15},
+                {chain_id: 1, address: 'b', amount: 1},
+            ])
+        })
+
+        it('iterates over entities in order of composite keys', async function () {
+            let store = await createStore()
+            await store.track(new Balance({chainId: 1, address: 'b', amount: 1}))
+
+            const keys: string[] = []
+            for await (const b of store.findIterator(Balance, {pageSize: 1})) {
+                keys.push(`${b.chainId}:${b.address}`)
+            }
+            expect(keys).toEqual(['1:a', '1:b', '2:a'])
+        })
+
+        it('caches entities by typed ids', async function () {
+            let store = await createStore()
+            const block = await store.get(Block, 1n)
+            expect(block).toEqual({height: 1n, hash: '0x1'})
+            await expect(store.get(Block, 1n)).resolves.toBe(block)
+
+            const blocks = await store.getMany(Block, [1n, 2n])
+            expect(blocks.get(1n)).toBe(block)
+            expect(blocks.get(2n)).toBeUndefined()
+        })
+
+        it('reverts writes of unfinalized blocks', async function () {
+            const em = await getEntityManager()
+            let store = await createStore({
+                changes: new ChangeTracker(em, 'squid_processor', 10),
+                keyedChanges: new KeyedChangeTracker(em, 'squid_processor', 10),
+            })
+            const balance = assertNotNull(await store.get(Balance, {chainId: 1, address: 'a'}))
+            balance.amount = 0
+            await store.track(new Balance({chainId: 1, address: 'b', amount: 1}))
+            await store.delete(Balance, {chainId: 2, address: 'a'})
+            await store.track(new Block({height: 2n, hash: '0x2'}))
+            await store.delete(Block, 1n)
+            await store.flush()
+
+            const getRows = async () => [
+                await em.query(`SELECT chain_id, address, amount FROM balance ORDER BY chain_id, address`),
+                await em.query(`SELECT height, hash FROM block ORDER BY height`),
+            ]
+            await expect(getRows()).resolves.toEqual([
+                [{chain_id: 1, address: 'a', amount: 0}, {chain_id: 1, address: 'b', amount: 1}],
+                [{height: '2', hash: '0x2'}],
+            ])
+
+            const restore = await rollbackKeyedEntities(em, 'squid_processor', 10)
+            await restore()
+            await expect(getRows()).resolves.toEqual([
+                [{chain_id: 1, address: 'a', amount: 10}, {chain_id: 2, address: 'a', amount: 20}],
+                [{height: '1', hash: '0x1'}],
+            ])
+        })
+    })
+
+    describe('Version columns', function () {
+        useDatabase([
+            `CREATE TABLE wallet (id text primary key, balance int4 not null, version int4 not null)`,
+            `INSERT INTO wallet (id, balance, version) values ('1', 10, 1)`,
+            `INSERT INTO wallet (id, balance, version) values ('2', 20, 1)`,
+        ])
+
+        it('increments versions of updated and inserted entities', async function () {
+            let store = await createStore()
+            let wallet = assertNotNull(await store.get(Wallet, '1'))
+            wallet.balance = 15
+            await store.track(new Wallet({id: '3', balance: 30}))
+            await store.flush()
+            expect(wallet.version).toEqual(2)
+
+            wallet = assertNotNull(await store.get(Wallet, '1'))
+            wallet.balance = 5
+            await store.flush()
+
+            const em = await getEntityManager()
+            await expect(em.query(`SELECT id, balance, version FROM wallet ORDER BY id`)).resolves.toEqual([
+                {id: '1', balance: 5, version: 3},
+                {id: '2', balance: 20, version: 1},
+                {id: '3', balance: 30, version: 1},
+            ])
+        })
+
+        it('rejects updates of rows changed concurrently', async function () {
+            let store = await createStore()
+            let wallets = await store.find(Wallet, {order: {id: 'ASC'}})
+            wallets.forEach((w) => (w.balance += 1))
+
+            const em = await getEntityManager()
+            await em.query(`UPDATE wallet SET balance = 0, version = version + 1 WHERE id = '2'`)
+
+            const err = await store.flush().catch((e) => e)
+            expect(err).toBeInstanceOf(VersionConflictError)
+            expect(err).toMatchObject({entity: 'Wallet', ids: ['2']})
+        })
+
+        it('keeps cached versions of bulk updated entities', async function () {
+            let store = await createStore()
+            let wallet = assertNotNull(await store.get(Wallet, '1'))
+            await store.updateWhere(Wallet, {id: '1'}, {balance: 0})
+            expect(wallet.version).toEqual(2)
+
+            wallet = assertNotNull(await store.get(Wallet, '1'))
+            wallet.balance = 7
+            await store.flush()
+
+            const em = await getEntityManager()
+            await expect(em.query(`SELECT balance, version FROM wallet WHERE id = '1'`)).resolves.toEqual([
+                {balance: 7, version: 3},
+            ])
+        })
+
+        it('increments versions of replaced rows', async function () {
+            let store = await createStore()
+            let wallet = new Wallet({id: '1', balance: 1})
+            await store.track(wallet, {replace: true})
+            await store.flush()
+            expect(wallet.version).toEqual(2)
+
+            const em = await getEntityManager()
+            await expect(em.query(`SELECT balance, version FROM wallet WHERE id = '1'`)).resolves.toEqual([
+                {balance: 1, version: 2},
+            ])
         })
     })
 
@@ -332,13 +1639,14 @@ describe('Store', function () {
     })
 })
 
-export async function createStore(): Promise<Store> {
+export async function createStore(options?: Partial<StoreOptions>): Promise<Store> {
     const em = await getEntityManager()
     return new Store({
         em,
         state: new StateManager({connection: em.connection}),
         postponeWriteOperations: true,
         cacheEntities: true,
+        ...options,
     })
 }
 
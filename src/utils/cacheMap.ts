@@ -1,41 +1,260 @@
 import {EntityMetadata} from 'typeorm'
-import {EntityLiteral} from './misc'
+import type {ColumnMetadata} from 'typeorm/metadata/ColumnMetadata'
+import {EntityLiteral, getValuesKey} from './misc'
 import {Logger} from '@subsquid/logger'
+import type {RelationMetadata} from 'typeorm/metadata/RelationMetadata'
+import {captureLinks} from './junction'
+import {getEntityKey} from './entityKey'
+
+const snapshotColumns = new WeakMap<EntityMetadata, ColumnMetadata[]>()
+
+/**
+ * Columns stored in a baseline snapshot: all persisted columns including relation join columns,
+ * which TypeORM marks as virtual.
+ */
+export function getSnapshotColumns(metadata: EntityMetadata): ColumnMetadata[] {
+    let cols = snapshotColumns.get(metadata)
+    if (cols == null) {
+        cols = metadata.columns.filter((col) => !col.isVirtualProperty)
+        snapshotColumns.set(metadata, cols)
+    }
+    return cols
+}
 
 export function captureColumnSnapshot(metadata: EntityMetadata, entity: EntityLiteral): unknown[] {
-    return metadata.nonVirtualColumns.map((col) => col.getEntityValue(entity, true))
+    return getSnapshotColumns(metadata).map((col) => copyValue(getColumnValue(col, entity)))
+}
+
+export function getBaselineValue(metadata: EntityMetadata, baseline: unknown[], column: ColumnMetadata): unknown {
+    return baseline[getSnapshotColumns(metadata).indexOf(column)]
+}
+
+const JSON_TYPES = new Set<unknown>(['json', 'jsonb', 'simple-json'])
+
+/**
+ * Returns the persisted form of the column value: transformed by the column transformer,
+ * and for json columns the value as it would be read back.
+ */
+function getColumnValue(column: ColumnMetadata, entity: EntityLiteral): unknown {
+    const value = column.getEntityValue(entity, true)
+    if (value == null || !JSON_TYPES.has(column.type)) return value
+    return JSON.parse(JSON.stringify(value))
+}
+
+/**
+ * Copies arrays, bytes, dates and plain objects, so in-place mutations of the entity do not reach the snapshot.
+ */
+function copyValue(value: unknown): unknown {
+    if (value == null || typeof value !== 'object') return value
+    if (value instanceof Date) return new Date(value.getTime())
+    if (value instanceof Uint8Array) return Uint8Array.from(value)
+    if (Array.isArray(value)) return value.map(copyValue)
+    if (Object.getPrototypeOf(value) !== Object.prototype) return value
+
+    const copy: Record<string, unknown> = {}
+    for (const [key, v] of Object.entries(value)) {
+        copy[key] = copyValue(v)
+    }
+    return copy
+}
+
+/**
+ * Copies column values of the entity, related entities are replaced by references holding their keys.
+ */
+export function copyEntity(metadata: EntityMetadata, entity: EntityLiteral): EntityLiteral {
+    const copy = metadata.create() as EntityLiteral
+    for (const column of getSnapshotColumns(metadata)) {
+        const value = column.getEntityValue(entity)
+        if (value === undefined) continue
+        if (value === null && column.relationMetadata != null) {
+            column.relationMetadata.setEntityValue(copy, null)
+        } else {
+            column.setEntityValue(copy, copyValue(value))
+        }
+    }
+    return copy
 }
 
 function valuesEqual(a: unknown, b: unknown): boolean {
     if (Object.is(a, b)) return true
-    if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime()
-    return false
+    if (a == null || b == null || typeof a !== 'object' || typeof b !== 'object') return false
+
+    if (a instanceof Date) return b instanceof Date && a.getTime() === b.getTime()
+    if (a instanceof Uint8Array) {
+        return b instanceof Uint8Array && a.length === b.length && a.every((byte, i) => byte === b[i])
+    }
+    if (Array.isArray(a)) {
+        return Array.isArray(b) && a.length === b.length && a.every((v, i) => valuesEqual(v, b[i]))
+    }
+    if (Array.isArray(b) || b instanceof Date || b instanceof Uint8Array) return false
+
+    const aKeys = Object.keys(a)
+    if (aKeys.length !== Object.keys(b).length) return false
+    return aKeys.every((key) => key in b && valuesEqual((a as any)[key], (b as any)[key]))
 }
 
 export function isSnapshotDirty(metadata: EntityMetadata, entity: EntityLiteral, baseline: unknown[]): boolean {
-    const cols = metadata.nonVirtualColumns
+    const cols = getSnapshotColumns(metadata)
     for (let i = 0; i < baseline.length; i++) {
-        if (!valuesEqual(baseline[i], cols[i].getEntityValue(entity, true))) return true
+        if (!valuesEqual(baseline[i], getColumnValue(cols[i], entity))) return true
     }
     return false
 }
 
+/**
+ * Returns non-primary columns whose current value differs from the baseline.
+ * Columns with `undefined` value are skipped, the same way TypeORM skips them on insert.
+ */
+export function getDirtyColumns(metadata: EntityMetadata, entity: EntityLiteral, baseline: unknown[]): ColumnMetadata[] {
+    const cols = getSnapshotColumns(metadata)
+    const dirty: ColumnMetadata[] = []
+    for (let i = 0; i < baseline.length; i++) {
+        if (cols[i].isPrimary) continue
+        const value = getColumnValue(cols[i], entity)
+        if (value === undefined) continue
+        if (!valuesEqual(baseline[i], value)) dirty.push(cols[i])
+    }
+    return dirty
+}
+
+/**
+ * Returns columns assigned through tracked properties, see {@link trackProperties},
+ * whose current value differs from the baseline.
+ */
+export function getChangedColumns(
+    metadata: EntityMetadata,
+    entity: EntityLiteral,
+    baseline: unknown[],
+    changed: Set<ColumnMetadata>
+): ColumnMetadata[] {
+    const cols = getSnapshotColumns(metadata)
+    const dirty: ColumnMetadata[] = []
+    for (let i = 0; i < baseline.length; i++) {
+        if (!changed.has(cols[i])) continue
+        const value = getColumnValue(cols[i], entity)
+        if (value === undefined) continue
+        if (!valuesEqual(baseline[i], value)) dirty.push(cols[i])
+    }
+    return dirty
+}
+
+const propertyListeners = new WeakMap<object, (column: ColumnMetadata) => void>()
+
+/**
+ * Tells whether assignments to all columns can be tracked with {@link trackProperties}.
+ * Properties of embedded entities are not instrumented, so such entities are compared with snapshots.
+ */
+export function canTrackProperties(metadata: EntityMetadata): boolean {
+    return metadata.embeddeds.length == 0
+}
+
+/**
+ * Replaces non-primary column properties of the entity with accessors which report assignments to `onChange`.
+ * The entity is instrumented once, later calls only replace the listener.
+ */
+export function trackProperties(
+    metadata: EntityMetadata,
+    entity: EntityLiteral,
+    onChange: (column: ColumnMetadata) => void
+): void {
+    const instrumented = propertyListeners.has(entity)
+    propertyListeners.set(entity, onChange)
+    if (instrumented) return
+
+    const properties = new Map<string, ColumnMetadata[]>()
+    for (const column of getSnapshotColumns(metadata)) {
+        if (column.isPrimary) continue
+        const columns = properties.get(column.propertyName)
+        if (columns == null) {
+            properties.set(column.propertyName, [column])
+        } else {
+            columns.push(column)
+        }
+    }
+
+    for (const [property, columns] of properties) {
+        let value = entity[property]
+        Object.defineProperty(entity, property, {
+            configurable: true,
+            enumerable: true,
+            get: () => value,
+            set: (v) => {
+                if (Object.is(v, value)) return
+                value = v
+                const listener = propertyListeners.get(entity)
+                for (const column of columns) {
+                    listener?.(column)
+                }
+            },
+        })
+    }
+}
+
 export class CachedEntity<E extends EntityLiteral = EntityLiteral> {
     value: E | null = null
     loadedFromDb = false
     baseline: unknown[] | null = null
+    /**
+     * Ids of entities linked through loaded `ManyToMany` relations as of the last DB read or write
+     */
+    links: Map<RelationMetadata, Set<string>> | null = null
+    /**
+     * Columns assigned since the last DB read or write, tracked only if the cache tracks properties
+     */
+    changedColumns: Set<ColumnMetadata> | null = null
+    lastUsed = 0
+}
+
+export interface CacheLimits {
+    /**
+     * Maximal number of entries in the cache
+     */
+    maxSize?: number
+    /**
+     * Maximal number of entries in the cache by entity name
+     */
+    maxSizes?: Record<string, number>
+}
+
+type UniqueIndex = {
+    columns: ColumnMetadata[]
+    /**
+     * Entity ids by key of column values, `null` for values known to be missing
+     */
+    ids: Map<string, string | null>
 }
 
+/**
+ * Entity cache keyed by {@link getEntityKey}. Recency of entries is tracked by `lastUsed` for eviction.
+ */
 export class CacheMap {
     private map: Map<EntityMetadata, Map<string, CachedEntity>> = new Map()
+    private indexes: Map<EntityMetadata, Map<string, UniqueIndex>> = new Map()
     private logger?: Logger
+    private clock = 0
 
-    constructor(logger?: Logger) {
+    /**
+     * @param onChange - if set, properties of entities read from or written to the DB are tracked
+     *     and assignments are reported, see {@link trackProperties}
+     */
+    constructor(
+        logger?: Logger,
+        private onChange?: (metadata: EntityMetadata, id: string) => void
+    ) {
         this.logger = logger?.child('cache')
     }
 
     get(metadata: EntityMetadata, id: string): CachedEntity | undefined {
-        return this.getEntityCache(metadata).get(id)
+        const cacheMap = this.getEntityCache(metadata)
+        const cached = cacheMap.get(id)
+        if (cached != null) {
+            this.markUsed(cacheMap, id, cached)
+        }
+        return cached
+    }
+
+    keys(metadata: EntityMetadata): string[] {
+        return [...this.getEntityCache(metadata).keys()]
     }
 
     has(metadata: EntityMetadata, id: string): boolean {
@@ -46,18 +265,109 @@ export class CacheMap {
         const cacheMap = this.getEntityCache(metadata)
         if (cacheMap.has(id)) return
 
-        cacheMap.set(id, new CachedEntity())
+        this.markUsed(cacheMap, id, new CachedEntity())
         this.logger?.debug(`added empty entity ${metadata.name} ${id}`)
     }
 
     delete(metadata: EntityMetadata, id: string): void {
-        this.getEntityCache(metadata).set(id, new CachedEntity())
+        this.markUsed(this.getEntityCache(metadata), id, new CachedEntity())
         this.logger?.debug(`deleted entity ${metadata.name} ${id}`)
     }
 
-    clear(): void {
-        this.logger?.debug(`cleared`)
-        this.map.clear()
+    /**
+     * Forgets the entry, unlike {@link delete} which caches the entity as missing.
+     */
+    remove(metadata: EntityMetadata, id: string): void {
+        this.getEntityCache(metadata).delete(id)
+        this.logger?.debug(`removed entity ${metadata.name} ${id}`)
+    }
+
+    clear(metadata?: EntityMetadata): void {
+        if (metadata == null) {
+            this.logger?.debug(`cleared`)
+            this.map.clear()
+            this.indexes.clear()
+        } else {
+            this.logger?.debug(`cleared ${metadata.name} entities`)
+            this.map.delete(metadata)
+            this.indexes.delete(metadata)
+        }
+    }
+
+    /**
+     * Looks up an entity by values of unique columns.
+     *
+     * Returns `undefined` if nothing is known about the values,
+     * and an empty entry if they are known to be missing.
+     */
+    getBy(metadata: EntityMetadata, columns: ColumnMetadata[], values: unknown[]): CachedEntity | undefined {
+        const index = this.getIndex(metadata, columns)
+        const key = getValuesKey(values)
+
+        const id = index.ids.get(key)
+        if (id === undefined) return undefined
+        if (id === null) return new CachedEntity()
+
+        const cached = this.get(metadata, id)
+        const value = cached?.value
+        if (cached == null || (value != null && getValuesKey(columns.map((c) => c.getEntityValue(value))) !== key)) {
+            // the entity was evicted or changed in memory
+            index.ids.delete(key)
+            return undefined
+        }
+        return cached
+    }
+
+    /**
+     * Records that there is no entity with the given values of unique columns.
+     */
+    settleBy(metadata: EntityMetadata, columns: ColumnMetadata[], values: unknown[]): void {
+        const index = this.getIndex(metadata, columns)
+        const key = getValuesKey(values)
+        if (index.ids.has(key)) return
+
+        index.ids.set(key, null)
+        this.logger?.debug(`added empty entity ${metadata.name} by ${key}`)
+    }
+
+    size(): number {
+        let size = 0
+        for (const cacheMap of this.map.values()) {
+            size += cacheMap.size
+        }
+        return size
+    }
+
+    /**
+     * Evicts least recently used entries until the cache fits into `limits`.
+     * Entries for which `isPinned` returns `true` are never evicted.
+     *
+     * @returns number of evicted entries
+     */
+    evict(limits: CacheLimits, isPinned: (metadata: EntityMetadata, id: string) => boolean): number {
+        let evicted = 0
+
+        for (const [metadata, cacheMap] of this.map) {
+            const maxSize = limits.maxSizes?.[metadata.name]
+            if (maxSize == null || cacheMap.size <= maxSize) continue
+
+            for (const [id] of sortByLastUsed(cacheMap.entries())) {
+                if (cacheMap.size <= maxSize) break
+                if (isPinned(metadata, id)) continue
+                cacheMap.delete(id)
+                evicted++
+            }
+        }
+
+        if (limits.maxSize != null) {
+            evicted += this.evictOldest(limits.maxSize, isPinned)
+        }
+
+        if (evicted > 0) {
+            this.logger?.debug(`evicted ${evicted} entities`)
+        }
+
+        return evicted
     }
 
     /**
@@ -65,10 +375,12 @@ export class CacheMap {
      * flush does not treat unchanged rows as dirty.
      */
     syncBaselineAfterWrite(metadata: EntityMetadata, entity: EntityLiteral): void {
-        const cached = this.get(metadata, entity.id)
+        const cached = this.get(metadata, getEntityKey(metadata, entity))
         if (cached?.value == null) return
         cached.loadedFromDb = true
         cached.baseline = captureColumnSnapshot(metadata, cached.value)
+        cached.links = captureLinks(metadata, cached.value, cached.links)
+        this.watch(metadata, cached)
     }
 
     /**
@@ -89,24 +401,31 @@ export class CacheMap {
      */
     add<E extends EntityLiteral>(metadata: EntityMetadata, entity: E, opts?: {fromQuery?: boolean; overwrite?: boolean}): void {
         const cacheMap = this.getEntityCache(metadata)
+        const id = getEntityKey(metadata, entity)
 
-        let cached = cacheMap.get(entity.id)
+        let cached = cacheMap.get(id)
         if (cached == null) {
             cached = new CachedEntity()
-            cacheMap.set(entity.id, cached)
         }
+        this.markUsed(cacheMap, id, cached)
 
         if (cached.value == null) {
             cached.value = entity
             if (opts?.fromQuery) {
                 cached.loadedFromDb = true
                 cached.baseline = captureColumnSnapshot(metadata, entity)
+                cached.links = captureLinks(metadata, entity, cached.links)
+                this.watch(metadata, cached)
             }
-            this.logger?.debug(`added entity ${metadata.name} ${entity.id}`)
+            this.updateIndexes(metadata, entity)
+            this.logger?.debug(`added entity ${metadata.name} ${id}`)
             return
         }
 
-        if (cached.value === entity) return
+        if (cached.value === entity) {
+            this.updateIndexes(metadata, entity)
+            return
+        }
 
         if (opts?.fromQuery) {
             // Preserve the canonical cached instance: a concurrent reader may already
@@ -123,25 +442,118 @@ export class CacheMap {
                 // associated with a DB baseline at all). Safe to align baseline to the
                 // latest DB read so future dirty detection works against fresh data.
                 cached.baseline = captureColumnSnapshot(metadata, cachedValue)
+                this.watch(metadata, cached)
+            }
+            // links are only read from the loaded entity, as the cached one may hold unsynced changes
+            const links = captureLinks(metadata, entity, null)
+            for (const [relation, ids] of links ?? []) {
+                if (cached.links?.has(relation)) continue
+                cached.links = (cached.links ?? new Map()).set(relation, ids)
+                if (relation.getEntityValue(cachedValue) === undefined) {
+                    relation.setEntityValue(cachedValue, relation.getEntityValue(entity))
+                }
             }
             cached.loadedFromDb = true
-            this.logger?.debug(`refreshed entity from query ${metadata.name} ${entity.id}`)
+            this.updateIndexes(metadata, cachedValue)
+            this.logger?.debug(`refreshed entity from query ${metadata.name} ${id}`)
             return
         }
 
         if (opts?.overwrite) {
             cached.value = entity
-            this.logger?.debug(`replaced entity (overwrite) ${metadata.name} ${entity.id}`)
+            this.updateIndexes(metadata, entity)
+            this.logger?.debug(`replaced entity (overwrite) ${metadata.name} ${id}`)
             return
         }
 
         throw new Error(
-            `Entity ${metadata.name} ${entity.id} is already in the store cache with a different object instance. ` +
+            `Entity ${metadata.name} ${id} is already in the store cache with a different object instance. ` +
                 `Use getOrCreate() to obtain or create the canonical instance, or fetch it with get()/find() and mutate it in place. ` +
                 `To intentionally replace a cached instance, pass { replace: true } to track().`
         )
     }
 
+    /**
+     * Starts tracking assignments of the cached value, changes are counted from the current baseline.
+     */
+    private watch(metadata: EntityMetadata, cached: CachedEntity): void {
+        const onChange = this.onChange
+        const value = cached.value
+        if (onChange == null || value == null || !canTrackProperties(metadata)) return
+
+        const id = getEntityKey(metadata, value)
+        const changed = new Set<ColumnMetadata>()
+        cached.changedColumns = changed
+        trackProperties(metadata, value, (column) => {
+            changed.add(column)
+            onChange(metadata, id)
+        })
+    }
+
+    /**
+     * Evicts entries of all entity types in order of their last use.
+     */
+    private evictOldest(maxSize: number, isPinned: (metadata: EntityMetadata, id: string) => boolean): number {
+        let size = this.size()
+        if (size <= maxSize) return 0
+
+        const entries: [Map<string, CachedEntity>, string, CachedEntity][] = []
+        for (const [metadata, cacheMap] of this.map) {
+            for (const [id, cached] of cacheMap) {
+                if (isPinned(metadata, id)) continue
+                entries.push([cacheMap, id, cached])
+            }
+        }
+        entries.sort((a, b) => a[2].lastUsed - b[2].lastUsed)
+
+        let evicted = 0
+        for (const [cacheMap, id] of entries) {
+            if (size <= maxSize) break
+            cacheMap.delete(id)
+            size--
+            evicted++
+        }
+
+        return evicted
+    }
+
+    private getIndex(metadata: EntityMetadata, columns: ColumnMetadata[]): UniqueIndex {
+        let indexes = this.indexes.get(metadata)
+        if (indexes == null) {
+            indexes = new Map()
+            this.indexes.set(metadata, indexes)
+        }
+
+        const name = columns.map((c) => c.propertyPath).join(',')
+        let index = indexes.get(name)
+        if (index == null) {
+            index = {columns, ids: new Map()}
+            indexes.set(name, index)
+            // index entities which are already cached
+            for (const {value} of this.getEntityCache(metadata).values()) {
+                if (value == null) continue
+                index.ids.set(getValuesKey(columns.map((c) => c.getEntityValue(value))), getEntityKey(metadata, value))
+            }
+        }
+        return index
+    }
+
+    private updateIndexes(metadata: EntityMetadata, entity: EntityLiteral): void {
+        const indexes = this.indexes.get(metadata)
+        if (indexes == null) return
+
+        for (const index of indexes.values()) {
+            index.ids.set(getValuesKey(index.columns.map((c) => c.getEntityValue(entity))), getEntityKey(metadata, entity))
+        }
+    }
+
+    private markUsed(cacheMap: Map<string, CachedEntity>, id: string, cached: CachedEntity): void {
+        cached.lastUsed = ++this.clock
+        if (cacheMap.get(id) !== cached) {
+            cacheMap.set(id, cached)
+        }
+    }
+
     private getEntityCache<E extends EntityLiteral>(metadata: EntityMetadata): Map<string, CachedEntity<E>> {
         let map = this.map.get(metadata)
         if (map == null) {
@@ -151,3 +563,7 @@ export class CacheMap {
         return map as Map<string, CachedEntity<E>>
     }
 }
+
+function sortByLastUsed(entries: Iterable<[string, CachedEntity]>): [string, CachedEntity][] {
+    return [...entries].sort((a, b) => a[1].lastUsed - b[1].lastUsed)
+}
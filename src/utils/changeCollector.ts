@@ -0,0 +1,73 @@
+import {ChangeSet, ChangeType} from './stateManager'
+import {getEntityKey} from './entityKey'
+
+export interface EntityChanges {
+    inserted: string[]
+    /**
+     * Ids of upserted entities, including updated and incremented ones
+     */
+    upserted: string[]
+    deleted: string[]
+}
+
+type EntityChangeSets = {
+    inserted: Set<string>
+    upserted: Set<string>
+    deleted: Set<string>
+}
+
+/**
+ * Accumulates ids of entities written by applied change sets.
+ */
+export class ChangeCollector {
+    private changes: Map<string, EntityChangeSets> = new Map()
+
+    add(cs: ChangeSet): void {
+        const changes = this.getEntityChanges(cs.metadata.name)
+        switch (cs.type) {
+            case ChangeType.Insert:
+                cs.entities.forEach((e) => changes.inserted.add(getEntityKey(cs.metadata, e)))
+                break
+            case ChangeType.Upsert:
+            case ChangeType.Update:
+                // inserts with postponed relations are followed by an upsert of the same entity
+                for (const e of cs.entities) {
+                    const id = getEntityKey(cs.metadata, e)
+                    if (changes.inserted.has(id)) continue
+                    changes.upserted.add(id)
+                }
+                break
+            case ChangeType.Increment:
+                cs.ids.forEach((id) => changes.upserted.add(id))
+                break
+            case ChangeType.Delete:
+                cs.ids.forEach((id) => changes.deleted.add(id))
+                break
+        }
+    }
+
+    getEntityNames(): string[] {
+        return [...this.changes.keys()]
+    }
+
+    getChanges(): Record<string, EntityChanges> {
+        const res: Record<string, EntityChanges> = {}
+        for (const [name, changes] of this.changes) {
+            res[name] = {
+                inserted: [...changes.inserted],
+                upserted: [...changes.upserted],
+                deleted: [...changes.deleted],
+            }
+        }
+        return res
+    }
+
+    private getEntityChanges(name: string): EntityChangeSets {
+        let changes = this.changes.get(name)
+        if (changes == null) {
+            changes = {inserted: new Set(), upserted: new Set(), deleted: new Set()}
+            this.changes.set(name, changes)
+        }
+        return changes
+    }
+}
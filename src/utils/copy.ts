@@ -0,0 +1,120 @@
+import type {ClientBase} from 'pg'
+import {from as copyFrom} from 'pg-copy-streams'
+import {Readable} from 'stream'
+import {pipeline} from 'stream/promises'
+import {EntityManager, EntityMetadata} from 'typeorm'
+import type {ColumnMetadata} from 'typeorm/metadata/ColumnMetadata'
+import {EntityLiteral, splitIntoBatches} from './misc'
+import {escapeTableName, getPersistentValue, getUpsertConflict, getWrittenColumns} from './sql'
+
+/**
+ * Inserts entities with `COPY FROM STDIN`.
+ *
+ * Columns which are `undefined` in every entity are omitted (and get their DB defaults),
+ * otherwise `undefined` is written as `NULL`.
+ */
+export async function copyInsert(em: EntityManager, metadata: EntityMetadata, entities: EntityLiteral[]) {
+    const columns = getWrittenColumns(metadata, entities)
+    await withClient(em, async (em, client) => {
+        await copyRows(em, client, escapeTableName(em, metadata), columns, entities)
+    })
+}
+
+/**
+ * Upserts entities by copying them into a temporary staging table
+ * followed by `INSERT ... SELECT ... ON CONFLICT DO UPDATE`.
+ *
+ * Columns which are `undefined` in every entity are left untouched.
+ *
+ * @returns primary and version columns of the written rows for versioned entities
+ */
+export async function copyUpsert(
+    em: EntityManager,
+    metadata: EntityMetadata,
+    entities: EntityLiteral[]
+): Promise<Record<string, unknown>[] | undefined> {
+    const columns = getWrittenColumns(metadata, entities)
+    let versions: Record<string, unknown>[] | undefined
+    await withClient(em, async (em, client) => {
+        const driver = em.connection.driver
+        const table = escapeTableName(em, metadata)
+        const staging = driver.escape(`${metadata.tableName}_staging`)
+        const names = columns.map((c) => driver.escape(c.databaseName)).join(', ')
+
+        // not using `LIKE`, as it would copy NOT NULL constraints of omitted columns
+        await em.query(`CREATE TEMPORARY TABLE ${staging} ON COMMIT DROP AS SELECT ${names} FROM ${table} WITH NO DATA`)
+        await copyRows(em, client, staging, columns, entities)
+        let sql =
+            `INSERT INTO ${table} (${names}) SELECT ${names} FROM ${staging} ` +
+            `ON CONFLICT ${getUpsertConflict(em, metadata, columns)}`
+        if (metadata.versionColumn != null) {
+            const returning = [...metadata.primaryColumns, metadata.versionColumn]
+            sql += ` RETURNING ${returning.map((c) => driver.escape(c.databaseName)).join(', ')}`
+        }
+        const rows = await em.query(sql)
+        if (metadata.versionColumn != null) {
+            versions = rows
+        }
+        await em.query(`DROP TABLE ${staging}`)
+    })
+    return versions
+}
+
+async function withClient(em: EntityManager, cb: (em: EntityManager, client: ClientBase) => Promise<void>) {
+    // COPY and staging tables need a single connection, so make sure we are inside a transaction
+    if (em.queryRunner?.isTransactionActive) {
+        await cb(em, await em.queryRunner.connect())
+    } else {
+        await em.transaction(async (em) => cb(em, await em.queryRunner!.connect()))
+    }
+}
+
+async function copyRows(
+    em: EntityManager,
+    client: ClientBase,
+    table: string,
+    columns: ColumnMetadata[],
+    entities: EntityLiteral[]
+) {
+    const names = columns.map((c) => em.connection.driver.escape(c.databaseName)).join(', ')
+    const stream = client.query(copyFrom(`COPY ${table} (${names}) FROM STDIN WITH (FORMAT csv)`))
+    await pipeline(Readable.from(encodeRows(em, columns, entities)), stream)
+}
+
+function* encodeRows(em: EntityManager, columns: ColumnMetadata[], entities: EntityLiteral[]): Generator<string> {
+    for (const batch of splitIntoBatches(entities, 1000)) {
+        let chunk = ''
+        for (const e of batch) {
+            chunk += columns.map((c) => encodeCsvValue(getPersistentValue(em, c, e))).join(',') + '\n'
+        }
+        yield chunk
+    }
+}
+
+function encodeCsvValue(value: unknown): string {
+    if (value == null) return ''
+    return '"' + encodeText(value).replace(/"/g, '""') + '"'
+}
+
+function encodeText(value: unknown): string {
+    if (value instanceof Date) {
+        return value.toISOString()
+    } else if (value instanceof Uint8Array) {
+        return '\\x' + Buffer.from(value.buffer, value.byteOffset, value.byteLength).toString('hex')
+    } else if (Array.isArray(value)) {
+        return encodeArray(value)
+    } else if (typeof value === 'object') {
+        return JSON.stringify(value)
+    } else {
+        return String(value)
+    }
+}
+
+function encodeArray(value: unknown[]): string {
+    const items = value.map((item) => {
+        if (item == null) return 'NULL'
+        if (Array.isArray(item)) return encodeArray(item)
+        return '"' + encodeText(item).replace(/[\\"]/g, '\\$&') + '"'
+    })
+    return '{' + items.join(',') + '}'
+}
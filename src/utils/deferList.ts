@@ -1,9 +1,13 @@
 import {EntityMetadata, FindOptionsRelations, ObjectLiteral} from 'typeorm'
-import {mergeRelations} from './misc'
+import {getValuesKey, mergeRelations} from './misc'
 import {Logger} from '@subsquid/logger'
 
 export type DeferData = {
     ids: Set<string>
+    /**
+     * Lookups by unique columns, grouped by the set of looked up properties
+     */
+    by: Map<string, Map<string, Record<string, unknown>>>
     relations: FindOptionsRelations<any>
 }
 
@@ -24,6 +28,26 @@ export class DeferList {
         }
     }
 
+    addBy<E extends ObjectLiteral>(metadata: EntityMetadata, where: Record<string, unknown>, relations?: FindOptionsRelations<E>) {
+        const data = this.getData(metadata)
+
+        const properties = Object.keys(where).sort()
+        const name = properties.join(',')
+        let lookups = data.by.get(name)
+        if (lookups == null) {
+            lookups = new Map()
+            data.by.set(name, lookups)
+        }
+        const key = getValuesKey(properties.map((p) => where[p]))
+        lookups.set(key, where)
+
+        this.logger?.debug(`entity ${metadata.name} by ${name} ${key} deferred`)
+
+        if (relations != null) {
+            data.relations = mergeRelations(data.relations, relations)
+        }
+    }
+
     remove(metadata: EntityMetadata, id: string) {
         const data = this.getData(metadata)
         data.ids.delete(id)
@@ -45,7 +69,7 @@ export class DeferList {
     private getData(metadata: EntityMetadata) {
         let list = this.map.get(metadata)
         if (list == null) {
-            list = {ids: new Set(), relations: {}}
+            list = {ids: new Set(), by: new Map(), relations: {}}
             this.map.set(metadata, list)
         }
 
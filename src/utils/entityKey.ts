@@ -0,0 +1,114 @@
+import assert from 'assert'
+import {EntityMetadata, FindOptionsOrder, FindOptionsSelect, FindOptionsWhere, In, ObjectLiteral} from 'typeorm'
+import {OrmUtils} from 'typeorm/util/OrmUtils'
+import {EntityLiteral, getValuesKey} from './misc'
+
+/**
+ * Primary key of an entity: the value of its primary property,
+ * or values of all primary properties for composite keys, e.g. `{chainId: 1, address: '0x...'}`.
+ */
+export type EntityId = string | number | bigint | Record<string, unknown>
+
+/**
+ * Returns the canonical key of the entity, which the cache and change tracking are keyed by.
+ * Keys of entities with a single primary column are its value as a string, so string ids are kept as they are.
+ */
+export function getEntityKey(metadata: EntityMetadata, entity: ObjectLiteral): string {
+    const values = metadata.primaryColumns.map((column) => {
+        const value = column.getEntityValue(entity)
+        assert(value != null, `${metadata.name}.${column.propertyPath} of the primary key is not set`)
+        return value
+    })
+    return getValuesKey(values)
+}
+
+export function getIdKey(metadata: EntityMetadata, id: EntityId): string {
+    if (typeof id === 'object') return getEntityKey(metadata, id)
+    assert(
+        metadata.primaryColumns.length == 1,
+        `${metadata.name} has a composite primary key, values of all primary properties are required`
+    )
+    return getValuesKey([id])
+}
+
+/**
+ * Returns the key of a raw row holding primary columns by their database names.
+ */
+export function getRowKey(metadata: EntityMetadata, row: Record<string, unknown>): string {
+    const driver = metadata.connection.driver
+    const entity = metadata.create() as EntityLiteral
+    for (const column of metadata.primaryColumns) {
+        column.setEntityValue(entity, driver.prepareHydratedValue(row[column.databaseName], column))
+    }
+    return getEntityKey(metadata, entity)
+}
+
+/**
+ * Returns values of primary columns encoded in the key, suitable for bind parameters with explicit casts.
+ */
+export function getKeyValues(metadata: EntityMetadata, key: string): string[] {
+    const values = metadata.primaryColumns.length == 1 ? [key] : key.split('\u0000')
+    assert(values.length == metadata.primaryColumns.length, `invalid ${metadata.name} key ${key}`)
+    return values
+}
+
+/**
+ * Creates an entity with only primary properties set.
+ */
+export function createFromKey(metadata: EntityMetadata, key: string): EntityLiteral {
+    const driver = metadata.connection.driver
+    const entity = metadata.create() as EntityLiteral
+    getKeyValues(metadata, key).forEach((value, i) => {
+        const column = metadata.primaryColumns[i]
+        column.setEntityValue(entity, driver.prepareHydratedValue(value, column))
+    })
+    return entity
+}
+
+/**
+ * Returns a find condition matching entities with the given keys.
+ */
+export function getKeysWhere(metadata: EntityMetadata, keys: string[]): FindOptionsWhere<any> | FindOptionsWhere<any>[] {
+    if (metadata.primaryColumns.length == 1) {
+        return metadata.primaryColumns[0].createValueMap(In(keys))
+    }
+    return keys.map((key) => {
+        const values = getKeyValues(metadata, key)
+        return OrmUtils.mergeDeep({}, ...metadata.primaryColumns.map((c, i) => c.createValueMap(values[i])))
+    })
+}
+
+/**
+ * Returns find options selecting primary properties only.
+ */
+export function getKeySelect(metadata: EntityMetadata): FindOptionsSelect<any> {
+    return OrmUtils.mergeDeep({}, ...metadata.primaryColumns.map((c) => c.createValueMap(true)))
+}
+
+/**
+ * Returns find options ordering by primary properties.
+ */
+export function getKeyOrder(metadata: EntityMetadata): FindOptionsOrder<any> {
+    return OrmUtils.mergeDeep({}, ...metadata.primaryColumns.map((c) => c.createValueMap('ASC')))
+}
+
+/**
+ * Returns the key if the condition matches a single entity by all its primary properties.
+ */
+export function getKeyFromWhere(
+    metadata: EntityMetadata,
+    where: FindOptionsWhere<any> | FindOptionsWhere<any>[] | undefined
+): string | undefined {
+    if (Array.isArray(where)) {
+        return where.length === 1 ? getKeyFromWhere(metadata, where[0]) : undefined
+    }
+    if (where == null) return undefined
+
+    const values: unknown[] = []
+    for (const column of metadata.primaryColumns) {
+        const value = column.getEntityValue(where)
+        if (typeof value !== 'string' && typeof value !== 'number' && typeof value !== 'bigint') return undefined
+        values.push(value)
+    }
+    return getValuesKey(values)
+}
@@ -0,0 +1,65 @@
+import {EntityManager, EntityMetadata} from 'typeorm'
+import {getSnapshotColumns} from './cacheMap'
+import {escapeTableName, getKeyCondition} from './sql'
+
+/**
+ * Versions of entities are kept in `<table>_history` with all entity columns
+ * and the validity range `[valid_from, valid_to)` of block heights, `valid_to` is `NULL` for current versions.
+ */
+export function getHistoryTableName(em: EntityManager, metadata: EntityMetadata): string {
+    const driver = em.connection.driver
+    const table = driver.escape(`${metadata.tableName}_history`)
+    return metadata.schema ? `${driver.escape(metadata.schema)}.${table}` : table
+}
+
+export async function createHistoryTable(em: EntityManager, metadata: EntityMetadata): Promise<void> {
+    const driver = em.connection.driver
+    const table = escapeTableName(em, metadata)
+    const history = getHistoryTableName(em, metadata)
+    const key = metadata.primaryColumns.map((c) => driver.escape(c.databaseName)).join(', ')
+
+    await em.query(`CREATE TABLE IF NOT EXISTS ${history} (LIKE ${table} INCLUDING DEFAULTS)`)
+    await em.query(`ALTER TABLE ${history} ADD COLUMN IF NOT EXISTS valid_from int4 NOT NULL`)
+    await em.query(`ALTER TABLE ${history} ADD COLUMN IF NOT EXISTS valid_to int4`)
+    await em.query(
+        `CREATE INDEX IF NOT EXISTS ${driver.escape(`${metadata.tableName}_history_id_valid_from`)} ` +
+            `ON ${history} (${key}, valid_from)`
+    )
+}
+
+/**
+ * Closes current versions of the given entities and records their rows from the entity table
+ * as new versions valid from the given height. Rows which no longer exist get no new version.
+ */
+export async function writeHistory(
+    em: EntityManager,
+    metadata: EntityMetadata,
+    ids: string[],
+    height: number
+): Promise<void> {
+    const driver = em.connection.driver
+    const table = escapeTableName(em, metadata)
+    const history = getHistoryTableName(em, metadata)
+    const names = getSnapshotColumns(metadata)
+        .map((c) => driver.escape(c.databaseName))
+        .join(', ')
+    const key = getKeyCondition(em, metadata, ids, 2)
+    const params = [height, ...key.params]
+
+    // an entity written several times at the same height keeps only the last version
+    await em.query(`DELETE FROM ${history} WHERE ${key.sql} AND valid_from = $1 AND valid_to IS NULL`, params)
+    await em.query(`UPDATE ${history} SET valid_to = $1 WHERE ${key.sql} AND valid_to IS NULL`, params)
+    await em.query(
+        `INSERT INTO ${history} (${names}, valid_from) SELECT ${names}, $1 FROM ${table} WHERE ${key.sql}`,
+        params
+    )
+}
+
+/**
+ * Removes versions written at the rolled back height and reopens the versions they replaced.
+ */
+export async function rollbackHistory(em: EntityManager, metadata: EntityMetadata, height: number): Promise<void> {
+    const history = getHistoryTableName(em, metadata)
+    await em.query(`DELETE FROM ${history} WHERE valid_from >= $1`, [height])
+    await em.query(`UPDATE ${history} SET valid_to = NULL WHERE valid_to >= $1`, [height])
+}
@@ -0,0 +1,177 @@
+import assert from 'assert'
+import {EntityManager, EntityMetadata} from 'typeorm'
+import type {RelationMetadata} from 'typeorm/metadata/RelationMetadata'
+import {escapeTableName, getColumnType} from './sql'
+import {getEntityKey} from './entityKey'
+
+const owningManyToManyRelations = new WeakMap<EntityMetadata, RelationMetadata[]>()
+
+/**
+ * `ManyToMany` relations whose junction table rows are written on behalf of the entity.
+ */
+export function getOwningManyToManyRelations(metadata: EntityMetadata): RelationMetadata[] {
+    let relations = owningManyToManyRelations.get(metadata)
+    if (relations == null) {
+        relations = metadata.manyToManyRelations.filter((r) => r.isOwning && r.junctionEntityMetadata != null)
+        owningManyToManyRelations.set(metadata, relations)
+    }
+    return relations
+}
+
+/**
+ * Returns keys of related entities, `undefined` if the relation is not loaded.
+ */
+export function getLinkedIds(relation: RelationMetadata, entity: object): Set<string> | undefined {
+    const value = relation.getEntityValue(entity)
+    if (!Array.isArray(value)) return undefined
+    return new Set(value.map((e: object) => getEntityKey(relation.inverseEntityMetadata, e)))
+}
+
+/**
+ * Captures ids of related entities of loaded `ManyToMany` relations into `links`.
+ */
+export function captureLinks(
+    metadata: EntityMetadata,
+    entity: object,
+    links: Map<RelationMetadata, Set<string>> | null
+): Map<RelationMetadata, Set<string>> | null {
+    for (const relation of getOwningManyToManyRelations(metadata)) {
+        const ids = getLinkedIds(relation, entity)
+        if (ids == null) continue
+        if (links == null) links = new Map()
+        links.set(relation, ids)
+    }
+    return links
+}
+
+function getJunctionColumns(em: EntityManager, junction: EntityMetadata) {
+    const driver = em.connection.driver
+    // links are written and recorded for rollback as pairs of single values
+    assert(
+        junction.ownerColumns.length == 1 && junction.inverseColumns.length == 1,
+        `unable to write ${junction.name} rows, ManyToMany relations of entities with composite primary keys are not supported`
+    )
+    const [owner] = junction.ownerColumns
+    const [inverse] = junction.inverseColumns
+    return {
+        table: escapeTableName(em, junction),
+        owner: driver.escape(owner.databaseName),
+        inverse: driver.escape(inverse.databaseName),
+        ownerType: getColumnType(em, junction, owner),
+        inverseType: getColumnType(em, junction, inverse),
+    }
+}
+
+/**
+ * Inserts junction rows, existing ones are skipped.
+ *
+ * @returns actually inserted links
+ */
+export async function insertLinks(
+    em: EntityManager,
+    junction: EntityMetadata,
+    links: [string, string][]
+): Promise<[string, string][]> {
+    const {table, owner, inverse, ownerType, inverseType} = getJunctionColumns(em, junction)
+    const rows: {owner: string; inverse: string}[] = await em.query(
+        `INSERT INTO ${table} (${owner}, ${inverse}) ` +
+            `SELECT * FROM unnest($1::${ownerType}[], $2::${inverseType}[]) ` +
+            `ON CONFLICT DO NOTHING RETURNING ${owner} AS owner, ${inverse} AS inverse`,
+        [links.map((l) => l[0]), links.map((l) => l[1])]
+    )
+    return rows.map((r) => [r.owner, r.inverse])
+}
+
+/**
+ * Deletes the given junction rows and all rows of the given owners.
+ *
+ * @returns actually deleted links
+ */
+export async function deleteLinks(
+    em: EntityManager,
+    junction: EntityMetadata,
+    links: [string, string][],
+    owners: string[]
+): Promise<[string, string][]> {
+    const {table, owner, inverse, ownerType, inverseType} = getJunctionColumns(em, junction)
+    const rows: [{owner: string; inverse: string}[], number] = await em.query(
+        `DELETE FROM ${table} WHERE (${owner}, ${inverse}) IN ` +
+            `(SELECT * FROM unnest($1::${ownerType}[], $2::${inverseType}[])) ` +
+            `OR ${owner} = ANY($3::${ownerType}[]) ` +
+            `RETURNING ${owner} AS owner, ${inverse} AS inverse`,
+        [links.map((l) => l[0]), links.map((l) => l[1]), owners]
+    )
+    return rows[0].map((r) => [r.owner, r.inverse])
+}
+
+/**
+ * Records junction rows written in an unfinalized block, so they can be reverted on rollback.
+ */
+export class JunctionTracker {
+    private table: string
+
+    constructor(
+        private em: EntityManager,
+        statusSchema: string,
+        private blockHeight: number
+    ) {
+        this.table = `${em.connection.driver.escape(statusSchema)}.hot_junction_log`
+    }
+
+    async track(kind: 'link' | 'unlink', junction: EntityMetadata, links: [string, string][]): Promise<void> {
+        if (links.length == 0) return
+        await this.em.query(
+            `INSERT INTO ${this.table} (block_height, kind, junction, owner_id, inverse_id) ` +
+                `SELECT $1, $2, $3, i.owner_id, i.inverse_id FROM unnest($4::text[], $5::text[]) WITH ORDINALITY ` +
+                `AS i(owner_id, inverse_id, n) ORDER BY i.n`,
+            [this.blockHeight, kind, junction.name, links.map((l) => String(l[0])), links.map((l) => String(l[1]))]
+        )
+    }
+}
+
+/**
+ * Reverts junction rows written in the rolled back block.
+ *
+ * Links which did not exist before the block are deleted before entity changes are reverted,
+ * and the `restore` callback re-inserts deleted links once the linked entities are restored.
+ */
+export async function rollbackLinks(
+    em: EntityManager,
+    statusSchema: string,
+    blockHeight: number
+): Promise<() => Promise<void>> {
+    const rows: {kind: 'link' | 'unlink'; junction: string; owner_id: string; inverse_id: string}[] = await em.query(
+        `SELECT kind, junction, owner_id, inverse_id FROM ${em.connection.driver.escape(statusSchema)}.hot_junction_log ` +
+            `WHERE block_height = $1 ORDER BY id`,
+        [blockHeight]
+    )
+
+    // the first change of a link tells whether it existed before the block
+    const existed = new Map<string, Map<string, [string, string, boolean]>>()
+    for (const row of rows) {
+        let links = existed.get(row.junction)
+        if (links == null) {
+            links = new Map()
+            existed.set(row.junction, links)
+        }
+        const key = JSON.stringify([row.owner_id, row.inverse_id])
+        if (links.has(key)) continue
+        links.set(key, [row.owner_id, row.inverse_id, row.kind === 'unlink'])
+    }
+
+    for (const [name, links] of existed) {
+        const added = [...links.values()].filter((l) => !l[2]).map((l): [string, string] => [l[0], l[1]])
+        if (added.length > 0) {
+            await deleteLinks(em, em.connection.getMetadata(name), added, [])
+        }
+    }
+
+    return async () => {
+        for (const [name, links] of existed) {
+            const removed = [...links.values()].filter((l) => l[2]).map((l): [string, string] => [l[0], l[1]])
+            if (removed.length > 0) {
+                await insertLinks(em, em.connection.getMetadata(name), removed)
+            }
+        }
+    }
+}
@@ -0,0 +1,154 @@
+import {EntityManager, EntityMetadata, EntityTarget} from 'typeorm'
+import {getMetadatasInCommitOrder} from './commitOrder'
+import {getEntityKey, getKeyValues, getRowKey} from './entityKey'
+import {EntityLiteral, getValuesKey} from './misc'
+import {escapeTableName, getKeyCondition, isNumericColumn} from './sql'
+
+/**
+ * Tells whether writes of unfinalized blocks are recorded by `@subsquid/typeorm-store`,
+ * which supports text `id` primary keys only.
+ */
+export function hasTextId(em: EntityManager, metadata: EntityMetadata): boolean {
+    const [column, ...rest] = metadata.primaryColumns
+    return rest.length == 0 && column.databaseName === 'id' && !isNumericColumn(em, column)
+}
+
+/**
+ * Records rows of entities with composite or non-text primary keys written in an unfinalized block,
+ * as they were before the write, so they can be restored on rollback.
+ *
+ * Rows removed by `ON DELETE CASCADE` constraints referencing these entities are not recorded.
+ */
+export class KeyedChangeTracker {
+    private table: string
+
+    constructor(
+        private em: EntityManager,
+        statusSchema: string,
+        private blockHeight: number
+    ) {
+        this.table = `${em.connection.driver.escape(statusSchema)}.hot_entity_log`
+    }
+
+    async trackInsert(target: EntityTarget<any>, entities: EntityLiteral[]): Promise<void> {
+        const metadata = this.em.connection.getMetadata(target)
+        await this.write(metadata, entities.map((e) => getEntityKey(metadata, e)), new Map())
+    }
+
+    async trackUpsert(target: EntityTarget<any>, entities: EntityLiteral[]): Promise<void> {
+        const metadata = this.em.connection.getMetadata(target)
+        await this.trackExisting(metadata, entities.map((e) => getEntityKey(metadata, e)))
+    }
+
+    async trackDelete(target: EntityTarget<any>, ids: string[]): Promise<void> {
+        await this.trackExisting(this.em.connection.getMetadata(target), ids)
+    }
+
+    private async trackExisting(metadata: EntityMetadata, ids: string[]): Promise<void> {
+        if (ids.length == 0) return
+        const driver = this.em.connection.driver
+        const key = getKeyCondition(this.em, metadata, ids, 1, 't')
+        // rows are kept as JSON text, so that big numbers are not rounded
+        const primary = metadata.primaryColumns.map((c) => `"t".${driver.escape(c.databaseName)}`)
+        const rows: Record<string, unknown>[] = await this.em.query(
+            `SELECT ${primary.join(', ')}, to_jsonb("t")::text AS "__data" ` +
+                `FROM ${escapeTableName(this.em, metadata)} AS "t" WHERE ${key.sql}`,
+            key.params
+        )
+        await this.write(metadata, ids, new Map(rows.map((r) => [getRowKey(metadata, r), r.__data as string])))
+    }
+
+    private async write(metadata: EntityMetadata, ids: string[], rows: Map<string, string>): Promise<void> {
+        if (ids.length == 0) return
+        await this.em.query(
+            `INSERT INTO ${this.table} (block_height, entity, entity_key, data) ` +
+                `SELECT $1, $2, i.entity_key, i.data FROM unnest($3::jsonb[], $4::jsonb[]) WITH ORDINALITY ` +
+                `AS i(entity_key, data, n) ORDER BY i.n`,
+            [
+                this.blockHeight,
+                metadata.name,
+                // keys are stored as arrays of values, as text columns can't hold separators of composite keys
+                ids.map((id) => JSON.stringify(getKeyValues(metadata, id))),
+                ids.map((id) => rows.get(id) ?? null),
+            ]
+        )
+    }
+}
+
+/**
+ * Reverts rows recorded by {@link KeyedChangeTracker} in the rolled back block.
+ *
+ * The first record of a row tells whether it existed before the block. Referenced entities are reverted
+ * around other changes of the block: their inserted rows are deleted after the rows referencing them,
+ * and their previous rows are restored before. Rows of other entities are handled the other way round,
+ * the `restore` callback does the part which follows the other changes.
+ */
+export async function rollbackKeyedEntities(
+    em: EntityManager,
+    statusSchema: string,
+    blockHeight: number
+): Promise<() => Promise<void>> {
+    const records: {entity: string; entity_key: string[]; data: string | null}[] = await em.query(
+        `SELECT entity, entity_key, data::text FROM ${em.connection.driver.escape(statusSchema)}.hot_entity_log ` +
+            `WHERE block_height = $1 ORDER BY id`,
+        [blockHeight]
+    )
+
+    const previous = new Map<EntityMetadata, Map<string, string | null>>()
+    for (const record of records) {
+        const metadata = em.connection.getMetadata(record.entity)
+        let rows = previous.get(metadata)
+        if (rows == null) {
+            rows = new Map()
+            previous.set(metadata, rows)
+        }
+        const key = getValuesKey(record.entity_key)
+        if (rows.has(key)) continue
+        rows.set(key, record.data)
+    }
+
+    const commitOrder = getMetadatasInCommitOrder(em.connection).filter((m) => previous.has(m))
+    const revert = async (referenced: boolean) => {
+        for (const metadata of [...commitOrder].reverse()) {
+            if (isReferenced(metadata) !== referenced) continue
+            const inserted = [...previous.get(metadata)!].filter(([, data]) => data == null).map(([id]) => id)
+            await deleteRows(em, metadata, inserted)
+        }
+        for (const metadata of commitOrder) {
+            if (isReferenced(metadata) === referenced) continue
+            const rows = [...previous.get(metadata)!.values()].filter((data) => data != null)
+            await restoreRows(em, metadata, rows as string[])
+        }
+    }
+
+    await revert(false)
+    return () => revert(true)
+}
+
+function isReferenced(metadata: EntityMetadata): boolean {
+    return metadata.connection.entityMetadatas.some((m) =>
+        m.relations.some((r) => r.foreignKeys.length > 0 && r.inverseEntityMetadata === metadata)
+    )
+}
+
+async function deleteRows(em: EntityManager, metadata: EntityMetadata, ids: string[]): Promise<void> {
+    if (ids.length == 0) return
+    const key = getKeyCondition(em, metadata, ids, 1)
+    await em.query(`DELETE FROM ${escapeTableName(em, metadata)} WHERE ${key.sql}`, key.params)
+}
+
+async function restoreRows(em: EntityManager, metadata: EntityMetadata, rows: string[]): Promise<void> {
+    if (rows.length == 0) return
+    const driver = em.connection.driver
+    const table = escapeTableName(em, metadata)
+    const columns = metadata.columns.filter((c) => !c.isVirtualProperty).map((c) => driver.escape(c.databaseName))
+    const primary = metadata.primaryColumns.map((c) => driver.escape(c.databaseName))
+    const set = columns.filter((name) => !primary.includes(name)).map((name) => `${name} = EXCLUDED.${name}`)
+    await em.query(
+        `INSERT INTO ${table} (${columns.join(', ')}) ` +
+            `SELECT ${columns.join(', ')} FROM jsonb_populate_recordset(NULL::${table}, $1::jsonb) ` +
+            `ON CONFLICT (${primary.join(', ')}) ` +
+            (set.length > 0 ? `DO UPDATE SET ${set.join(', ')}` : `DO NOTHING`),
+        ['[' + rows.join(',') + ']']
+    )
+}
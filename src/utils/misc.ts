@@ -1,7 +1,23 @@
 import {EntityMetadata, FindOptionsRelations, ObjectLiteral} from 'typeorm'
 
-export interface EntityLiteral extends ObjectLiteral {
-    id: string
+/**
+ * Entity object, its primary properties are described by entity metadata.
+ * It used to declare a `string` `id` property, which composite and non-string keys don't have.
+ */
+export type EntityLiteral = ObjectLiteral
+
+/**
+ * Maximal number of bind parameters in a single Postgres query.
+ */
+export const MAX_QUERY_PARAMETERS = 65535
+
+/**
+ * Returns the number of rows that fit into a single query with `paramsPerRow` bind parameters each,
+ * optionally limited by `maxBatchSize`.
+ */
+export function getBatchSize(paramsPerRow: number, maxBatchSize?: number): number {
+    const limit = Math.max(1, Math.floor(MAX_QUERY_PARAMETERS / Math.max(1, paramsPerRow)))
+    return maxBatchSize == null ? limit : Math.max(1, Math.min(maxBatchSize, limit))
 }
 
 export function* splitIntoBatches<T>(list: T[], maxBatchSize: number): Generator<T[]> {
@@ -42,6 +58,13 @@ export function mergeRelations<E extends ObjectLiteral>(
     return mergedObject
 }
 
+/**
+ * Serializes column values into a string suitable for a map key.
+ */
+export function getValuesKey(values: unknown[]): string {
+    return values.map((v) => (v instanceof Date ? v.toISOString() : String(v))).join('\u0000')
+}
+
 export function noNull<T>(val: null | undefined | T): T | undefined {
     return val == null ? undefined : val
 }
@@ -0,0 +1,77 @@
+import {EntityManager} from 'typeorm'
+import {ChangeSet, ChangeType} from './stateManager'
+import {getEntityKey} from './entityKey'
+
+export interface OutboxRecord {
+    /**
+     * Sequential record id, records are committed in the order of their ids
+     */
+    id: string
+    blockHeight: number
+    /**
+     * Type of the change. `rollback` means that all changes of blocks
+     * starting from `blockHeight` written by previous records were reverted.
+     */
+    type: `${ChangeType}` | 'rollback'
+    /**
+     * Entity name, `null` for rollback records
+     */
+    entity: string | null
+    entityId: string | null
+    /**
+     * Properties changed by an update or increment, only recorded if enabled
+     */
+    columns: string[] | null
+}
+
+/**
+ * Writes compact change records into the outbox table within the current transaction.
+ */
+export class OutboxWriter {
+    private table: string
+
+    constructor(
+        private em: EntityManager,
+        statusSchema: string,
+        private blockHeight: number,
+        private recordColumns: boolean
+    ) {
+        this.table = `${em.connection.driver.escape(statusSchema)}.outbox`
+    }
+
+    async write(cs: ChangeSet): Promise<void> {
+        // junction rows have no ids, the change is visible through the owner entity only
+        if (cs.type === ChangeType.Link || cs.type === ChangeType.Unlink) return
+
+        const ids = 'ids' in cs ? cs.ids : cs.entities.map((e) => getEntityKey(cs.metadata, e))
+        if (ids.length === 0) return
+
+        const columns =
+            this.recordColumns && 'columns' in cs ? cs.columns.map((c) => c.propertyPath) : null
+
+        await this.em.query(
+            `INSERT INTO ${this.table} (block_height, entity, entity_id, change_type, columns) ` +
+                `SELECT $1, $2, i.entity_id, $3, $4::text[] FROM unnest($5::text[]) WITH ORDINALITY AS i(entity_id, n) ` +
+                `ORDER BY i.n`,
+            [this.blockHeight, cs.metadata.name, cs.type, columns, ids]
+        )
+    }
+}
+
+export async function writeOutboxRollback(em: EntityManager, statusSchema: string, blockHeight: number) {
+    await em.query(
+        `INSERT INTO ${em.connection.driver.escape(statusSchema)}.outbox (block_height, change_type) VALUES ($1, 'rollback')`,
+        [blockHeight]
+    )
+}
+
+export function mapOutboxRecord(r: any): OutboxRecord {
+    return {
+        id: r.id,
+        blockHeight: r.block_height,
+        type: r.change_type,
+        entity: r.entity,
+        entityId: r.entity_id,
+        columns: r.columns,
+    }
+}
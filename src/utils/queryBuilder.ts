@@ -0,0 +1,135 @@
+import {Brackets, ObjectLiteral, SelectQueryBuilder} from 'typeorm'
+
+type Where = string | Brackets | ((qb: SelectQueryBuilder<any>) => string)
+
+/**
+ * Read-only wrapper of a TypeORM select query builder.
+ * Every terminal method syncs pending changes of the store before the query is run.
+ */
+export class StoreQueryBuilder<E extends ObjectLiteral> {
+    constructor(
+        private qb: SelectQueryBuilder<E>,
+        private performRead: <T>(cb: () => Promise<T>) => Promise<T>
+    ) {}
+
+    select(selection: string, alias?: string): this {
+        this.qb.select(selection, alias)
+        return this
+    }
+
+    addSelect(selection: string, alias?: string): this {
+        this.qb.addSelect(selection, alias)
+        return this
+    }
+
+    where(where: Where, parameters?: ObjectLiteral): this {
+        this.qb.where(where, parameters)
+        return this
+    }
+
+    andWhere(where: Where, parameters?: ObjectLiteral): this {
+        this.qb.andWhere(where, parameters)
+        return this
+    }
+
+    orWhere(where: Where, parameters?: ObjectLiteral): this {
+        this.qb.orWhere(where, parameters)
+        return this
+    }
+
+    innerJoin(property: string, alias: string, condition?: string, parameters?: ObjectLiteral): this {
+        this.qb.innerJoin(property, alias, condition, parameters)
+        return this
+    }
+
+    leftJoin(property: string, alias: string, condition?: string, parameters?: ObjectLiteral): this {
+        this.qb.leftJoin(property, alias, condition, parameters)
+        return this
+    }
+
+    innerJoinAndSelect(property: string, alias: string, condition?: string, parameters?: ObjectLiteral): this {
+        this.qb.innerJoinAndSelect(property, alias, condition, parameters)
+        return this
+    }
+
+    leftJoinAndSelect(property: string, alias: string, condition?: string, parameters?: ObjectLiteral): this {
+        this.qb.leftJoinAndSelect(property, alias, condition, parameters)
+        return this
+    }
+
+    groupBy(groupBy: string): this {
+        this.qb.groupBy(groupBy)
+        return this
+    }
+
+    addGroupBy(groupBy: string): this {
+        this.qb.addGroupBy(groupBy)
+        return this
+    }
+
+    having(having: string, parameters?: ObjectLiteral): this {
+        this.qb.having(having, parameters)
+        return this
+    }
+
+    andHaving(having: string, parameters?: ObjectLiteral): this {
+        this.qb.andHaving(having, parameters)
+        return this
+    }
+
+    orderBy(sort: string, order?: 'ASC' | 'DESC', nulls?: 'NULLS FIRST' | 'NULLS LAST'): this {
+        this.qb.orderBy(sort, order, nulls)
+        return this
+    }
+
+    addOrderBy(sort: string, order?: 'ASC' | 'DESC', nulls?: 'NULLS FIRST' | 'NULLS LAST'): this {
+        this.qb.addOrderBy(sort, order, nulls)
+        return this
+    }
+
+    skip(skip?: number): this {
+        this.qb.skip(skip)
+        return this
+    }
+
+    take(take?: number): this {
+        this.qb.take(take)
+        return this
+    }
+
+    limit(limit?: number): this {
+        this.qb.limit(limit)
+        return this
+    }
+
+    offset(offset?: number): this {
+        this.qb.offset(offset)
+        return this
+    }
+
+    setParameter(key: string, value: any): this {
+        this.qb.setParameter(key, value)
+        return this
+    }
+
+    setParameters(parameters: ObjectLiteral): this {
+        this.qb.setParameters(parameters)
+        return this
+    }
+
+    getMany(): Promise<E[]> {
+        return this.performRead(() => this.qb.getMany())
+    }
+
+    getOne(): Promise<E | null> {
+        return this.performRead(() => this.qb.getOne())
+    }
+
+    getCount(): Promise<number> {
+        return this.performRead(() => this.qb.getCount())
+    }
+
+    getRawMany<T = any>(): Promise<T[]> {
+        return this.performRead(() => this.qb.getRawMany<T>())
+    }
+}
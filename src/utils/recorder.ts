@@ -0,0 +1,412 @@
+import {assertNotNull, unexpectedCase} from '@subsquid/util-internal'
+import assert from 'assert'
+import {createReadStream} from 'fs'
+import {open, readFile, rm, stat} from 'fs/promises'
+import {createInterface} from 'readline'
+import {Readable, Writable} from 'stream'
+import {EntityManager, EntityMetadata} from 'typeorm'
+import type {ColumnMetadata} from 'typeorm/metadata/ColumnMetadata'
+import {ApplyValueTransformers} from 'typeorm/util/ApplyValueTransformers'
+import {getSnapshotColumns} from './cacheMap'
+import {EntityLiteral} from './misc'
+import {ChangeSet, ChangeType} from './stateManager'
+
+export interface ChangeRecord {
+    /**
+     * Height of the first block processed in the transaction, or the reverted block of rollback records
+     */
+    from: number
+    /**
+     * Height of the last block processed in the transaction, or the reverted block of rollback records
+     */
+    to: number
+    /**
+     * Height of the block that wrote the change. `rollback` records revert changes of blocks
+     * starting from this height written by previous records.
+     */
+    height: number
+    /**
+     * Height of the last finalized block once the transaction is committed, changes up to it are never reverted
+     */
+    finalized: number
+    type: `${ChangeType}` | 'rollback'
+    /**
+     * Entity name, absent in rollback records
+     */
+    entity?: string
+    /**
+     * Written rows by database column names, updates hold primary and updated columns only
+     */
+    rows?: Record<string, unknown>[]
+    /**
+     * Database names of updated columns
+     */
+    columns?: string[]
+    /**
+     * Deltas added to `columns` of increment records, parallel to `ids`
+     */
+    deltas?: unknown[][]
+    /**
+     * Values of bulk updates by database column names, set on all rows. Rows hold primary columns only.
+     */
+    patch?: Record<string, unknown>
+    /**
+     * Raw SQL expressions of bulk updates by database column names
+     */
+    sql?: Record<string, string>
+    /**
+     * Keys of deleted or incremented entities
+     */
+    ids?: string[]
+    /**
+     * Database name of the soft delete marker column
+     */
+    softDeleteColumn?: string
+    /**
+     * Property of the `ManyToMany` relation of link and unlink records
+     */
+    relation?: string
+    links?: [string, string][]
+    owners?: string[]
+}
+
+/**
+ * Receives change records of every transaction in commit order.
+ *
+ * Records are staged before the transaction commits and published after it,
+ * so that a crash in between is resolved with `recover()` on the next start.
+ */
+export interface ChangeRecorder {
+    /**
+     * Called within the transaction before it commits, a failure rolls the transaction back.
+     * `nonce` is the nonce of the processor status written by the transaction.
+     */
+    stage(records: ChangeRecord[], nonce: number): void | Promise<void>
+    /**
+     * Publishes the staged records once their transaction is committed
+     */
+    commit(): void | Promise<void>
+    /**
+     * Called on connect with the committed nonce of the processor status.
+     * Publishes records staged by a committed transaction and discards records of a rolled back one.
+     */
+    recover(nonce: number): void | Promise<void>
+}
+
+/**
+ * Writes change records as newline-delimited JSON.
+ *
+ * Files are appended to, so a restarted processor continues the same file.
+ * Records are staged into `<file>.staged`, which survives crashes between the commit and the append.
+ * Streams get records of committed transactions only, and miss them if the process stops in between.
+ */
+export class NdjsonRecorder implements ChangeRecorder {
+    private path?: string
+    private stream?: Writable
+    private error?: Error
+    private staged?: {offset: number; chunk: string}
+
+    constructor(output: string | Writable) {
+        if (typeof output === 'string') {
+            this.path = output
+        } else {
+            this.stream = output
+            // failures are reported by commits instead of crashing the process
+            output.on('error', (err) => (this.error = err))
+        }
+    }
+
+    async stage(records: ChangeRecord[], nonce: number): Promise<void> {
+        this.staged = undefined
+        if (this.path == null) {
+            if (records.length > 0) this.staged = {offset: 0, chunk: encodeRecords(records)}
+            return
+        }
+        const stagedPath = this.getStagedPath()
+        if (records.length === 0) {
+            await rm(stagedPath, {force: true})
+            return
+        }
+        // the file is truncated back to the offset, so publishing twice doesn't duplicate records
+        const offset = await getFileSize(this.path)
+        const chunk = encodeRecords(records)
+        await writeDurably(stagedPath, JSON.stringify({nonce, offset}) + '\n' + chunk, 'w')
+        this.staged = {offset, chunk}
+    }
+
+    async commit(): Promise<void> {
+        const staged = this.staged
+        if (staged == null) return
+        this.staged = undefined
+        if (this.path == null) {
+            await this.writeStream(staged.chunk)
+        } else {
+            await this.publish(staged.offset, staged.chunk)
+        }
+    }
+
+    async recover(nonce: number): Promise<void> {
+        if (this.path == null) return
+        const content = await readFile(this.getStagedPath(), 'utf8').catch((err) => {
+            if (err.code === 'ENOENT') return undefined
+            throw err
+        })
+        if (content == null) return
+        const newline = content.indexOf('\n')
+        const header: {nonce: number; offset: number} = JSON.parse(content.slice(0, newline))
+        if (header.nonce <= nonce) {
+            await this.publish(header.offset, content.slice(newline + 1))
+        } else {
+            await rm(this.getStagedPath())
+        }
+    }
+
+    async close(): Promise<void> {
+        const stream = this.stream
+        if (stream == null) return
+        await new Promise<void>((resolve) => stream.end(resolve))
+    }
+
+    private async publish(offset: number, chunk: string): Promise<void> {
+        const path = assertNotNull(this.path)
+        const file = await open(path, 'a')
+        try {
+            await file.truncate(offset)
+            await file.appendFile(chunk)
+            await file.sync()
+        } finally {
+            await file.close()
+        }
+        await rm(this.getStagedPath())
+    }
+
+    private async writeStream(chunk: string): Promise<void> {
+        const stream = assertNotNull(this.stream)
+        if (this.error != null) throw this.error
+        await new Promise<void>((resolve, reject) => {
+            stream.write(chunk, (err) => (err ? reject(err) : resolve()))
+        })
+    }
+
+    private getStagedPath(): string {
+        return this.path + '.staged'
+    }
+}
+
+type BufferedRecord = Omit<ChangeRecord, 'from' | 'to' | 'finalized'>
+
+/**
+ * Serializes applied change sets of a transaction, before handlers get to mutate the written entities.
+ */
+export class ChangeRecordBuffer {
+    private records: BufferedRecord[] = []
+
+    add(cs: ChangeSet, height: number): void {
+        const record: BufferedRecord = {height, type: cs.type, entity: cs.metadata.name}
+        switch (cs.type) {
+            case ChangeType.Insert:
+            case ChangeType.Upsert:
+                record.rows = cs.entities.map((e) => encodeRow(getSnapshotColumns(cs.metadata), e))
+                break
+            case ChangeType.Update: {
+                record.columns = cs.columns.map((c) => c.databaseName)
+                if (cs.patch == null) {
+                    const columns = [...cs.metadata.primaryColumns, ...cs.columns]
+                    record.rows = cs.entities.map((e) => encodeRow(columns, e))
+                } else {
+                    record.rows = cs.entities.map((e) => encodeRow(cs.metadata.primaryColumns, e))
+                    encodePatch(record, cs.columns, cs.patch)
+                }
+                break
+            }
+            case ChangeType.Increment:
+                record.ids = cs.ids
+                record.columns = cs.columns.map((c) => c.databaseName)
+                record.deltas = cs.deltas.map((d) => d.map(encodeValue))
+                break
+            case ChangeType.Delete:
+                record.ids = cs.ids
+                record.softDeleteColumn = cs.softDeleteColumn?.databaseName
+                break
+            case ChangeType.Link:
+            case ChangeType.Unlink:
+                record.relation = cs.relation.propertyPath
+                record.links = cs.links
+                if (cs.type === ChangeType.Unlink) record.owners = cs.owners
+                break
+        }
+        this.records.push(record)
+    }
+
+    /**
+     * Records that changes of blocks starting from the given height were reverted
+     */
+    addRollback(height: number): void {
+        this.records.push({height, type: 'rollback'})
+    }
+
+    getRecords(from: number, to: number, finalized: number): ChangeRecord[] {
+        return this.records.map((r) =>
+            r.type === 'rollback' ? {from: r.height, to: r.height, finalized, ...r} : {from, to, finalized, ...r}
+        )
+    }
+}
+
+function encodeRecords(records: ChangeRecord[]): string {
+    return records.map((r) => JSON.stringify(r) + '\n').join('')
+}
+
+async function getFileSize(path: string): Promise<number> {
+    try {
+        return (await stat(path)).size
+    } catch (err: any) {
+        if (err.code === 'ENOENT') return 0
+        throw err
+    }
+}
+
+async function writeDurably(path: string, data: string, flags: string): Promise<void> {
+    const file = await open(path, flags)
+    try {
+        await file.writeFile(data)
+        await file.sync()
+    } finally {
+        await file.close()
+    }
+}
+
+/**
+ * Reads change records from an NDJSON file or stream.
+ */
+export async function* readChangeRecords(input: string | Readable): AsyncIterable<ChangeRecord> {
+    const stream = typeof input === 'string' ? createReadStream(input) : input
+    const lines = createInterface({input: stream, crlfDelay: Infinity})
+    for await (const line of lines) {
+        if (line.trim().length === 0) continue
+        yield JSON.parse(line)
+    }
+}
+
+/**
+ * Restores the change set of a record, rows are hydrated the way TypeORM reads them.
+ */
+export function decodeChangeRecord(em: EntityManager, record: ChangeRecord): ChangeSet {
+    assert(record.type !== 'rollback', `changes rolled back at block ${record.from} can't be replayed`)
+    const metadata = em.connection.getMetadata(assertDefined(record.entity))
+    const type = record.type as ChangeType
+    switch (type) {
+        case ChangeType.Insert:
+        case ChangeType.Upsert:
+            return {type, metadata, entities: decodeRows(metadata, record)}
+        case ChangeType.Update: {
+            const columns = assertDefined(record.columns).map((name) => getColumn(metadata, name))
+            const patch = decodePatch(metadata, record)
+            const entities = decodeRows(metadata, record)
+            if (patch != null) entities.forEach((e) => Object.assign(e, patch))
+            return {type, metadata, entities, columns, patch}
+        }
+        case ChangeType.Increment: {
+            const columns = assertDefined(record.columns).map((name) => getColumn(metadata, name))
+            const deltas = assertDefined(record.deltas).map((d) => d.map((v, i) => decodeValue(columns[i], v)))
+            return {type, metadata, ids: assertDefined(record.ids), columns, deltas: deltas as (number | bigint)[][]}
+        }
+        case ChangeType.Delete:
+            return {
+                type: ChangeType.Delete,
+                metadata,
+                ids: assertDefined(record.ids),
+                softDeleteColumn: record.softDeleteColumn == null ? undefined : getColumn(metadata, record.softDeleteColumn),
+            }
+        case ChangeType.Link:
+        case ChangeType.Unlink: {
+            const relation = metadata.findRelationWithPropertyPath(assertDefined(record.relation))
+            assert(relation != null, `${metadata.name}.${record.relation} is not a relation`)
+            const links = assertDefined(record.links)
+            return type === ChangeType.Link
+                ? {type, metadata, relation, links}
+                : {type, metadata, relation, links, owners: record.owners}
+        }
+        default:
+            throw unexpectedCase(type)
+    }
+}
+
+function encodeRow(columns: ColumnMetadata[], entity: EntityLiteral): Record<string, unknown> {
+    const row: Record<string, unknown> = {}
+    for (const column of columns) {
+        const value = column.getEntityValue(entity, true)
+        assert(typeof value !== 'function', `${column.entityMetadata.name}.${column.propertyPath} is set by raw SQL`)
+        row[column.databaseName] = encodeValue(value)
+    }
+    return row
+}
+
+function encodePatch(record: BufferedRecord, columns: ColumnMetadata[], patch: Record<string, unknown>): void {
+    record.patch = {}
+    for (const column of columns) {
+        const value = column.getEntityValue(patch, true)
+        if (typeof value === 'function') {
+            record.sql = {...record.sql, [column.databaseName]: value()}
+        } else {
+            record.patch[column.databaseName] = encodeValue(value)
+        }
+    }
+}
+
+function decodePatch(metadata: EntityMetadata, record: ChangeRecord): Record<string, unknown> | undefined {
+    if (record.patch == null) return undefined
+    const patch: Record<string, unknown> = {}
+    for (const [name, value] of Object.entries(record.patch)) {
+        const column = getColumn(metadata, name)
+        column.setEntityValue(patch, decodeValue(column, value))
+    }
+    for (const [name, sql] of Object.entries(record.sql ?? {})) {
+        getColumn(metadata, name).setEntityValue(patch, () => sql)
+    }
+    return patch
+}
+
+function encodeValue(value: unknown): unknown {
+    if (value instanceof Date) return value.toISOString()
+    if (value instanceof Uint8Array) return '\\x' + Buffer.from(value).toString('hex')
+    if (typeof value === 'bigint') return value.toString()
+    if (Array.isArray(value)) return value.map(encodeValue)
+    return value
+}
+
+function decodeRows(metadata: EntityMetadata, record: ChangeRecord): EntityLiteral[] {
+    return assertDefined(record.rows).map((row) => {
+        const entity = metadata.create() as EntityLiteral
+        for (const [name, value] of Object.entries(row)) {
+            const column = getColumn(metadata, name)
+            column.setEntityValue(entity, decodeValue(column, value))
+        }
+        return entity
+    })
+}
+
+const DATE_TYPES = new Set<unknown>([Date, 'timestamp', 'timestamp with time zone', 'timestamp without time zone'])
+
+function decodeValue(column: ColumnMetadata, value: unknown): unknown {
+    if (value != null) {
+        const decode = (v: any) => {
+            if (v == null) return v
+            if (column.type === 'bytea') return Buffer.from(v.slice(2), 'hex')
+            if (DATE_TYPES.has(column.type)) return new Date(v)
+            return v
+        }
+        value = column.isArray && Array.isArray(value) ? value.map(decode) : decode(value)
+    }
+    return column.transformer == null ? value : ApplyValueTransformers.transformFrom(column.transformer, value)
+}
+
+function getColumn(metadata: EntityMetadata, databaseName: string): ColumnMetadata {
+    const column = metadata.findColumnWithDatabaseName(databaseName)
+    assert(column != null, `${metadata.name} has no column ${databaseName}`)
+    return column
+}
+
+function assertDefined<T>(value: T | undefined): T {
+    assert(value !== undefined, 'malformed change record')
+    return value
+}
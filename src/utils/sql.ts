@@ -0,0 +1,98 @@
+import {EntityManager, EntityMetadata} from 'typeorm'
+import type {ColumnMetadata} from 'typeorm/metadata/ColumnMetadata'
+import {getKeyValues} from './entityKey'
+import {EntityLiteral} from './misc'
+
+export function escapeTableName(em: EntityManager, metadata: EntityMetadata): string {
+    const driver = em.connection.driver
+    return metadata.schema
+        ? `${driver.escape(metadata.schema)}.${driver.escape(metadata.tableName)}`
+        : driver.escape(metadata.tableName)
+}
+
+/**
+ * Returns the SQL type of the column, suitable for explicit casts of bind parameters.
+ */
+export function getColumnType(em: EntityManager, metadata: EntityMetadata, column: ColumnMetadata): string {
+    const driver = em.connection.driver
+
+    let type: string
+    if (column.type === 'enum' || column.type === 'simple-enum') {
+        const enumName = column.enumName ?? `${metadata.tableName}_${column.databaseName.toLowerCase()}_enum`
+        type = metadata.schema ? `${driver.escape(metadata.schema)}.${driver.escape(enumName)}` : driver.escape(enumName)
+    } else {
+        type = driver.normalizeType(column)
+    }
+
+    return column.isArray ? type + '[]' : type
+}
+
+/**
+ * Returns an SQL condition matching rows by entity keys, keys are passed as array parameters starting from `$offset`.
+ */
+export function getKeyCondition(
+    em: EntityManager,
+    metadata: EntityMetadata,
+    keys: string[],
+    offset: number,
+    alias?: string
+): {sql: string; params: unknown[]} {
+    const driver = em.connection.driver
+    const prefix = alias == null ? '' : `${driver.escape(alias)}.`
+    const columns = metadata.primaryColumns.map((c) => prefix + driver.escape(c.databaseName))
+    const arrays = metadata.primaryColumns.map((c, i) => `$${offset + i}::${getColumnType(em, metadata, c)}[]`)
+
+    const params: unknown[][] = metadata.primaryColumns.map(() => [])
+    for (const key of keys) {
+        getKeyValues(metadata, key).forEach((value, i) => params[i].push(value))
+    }
+
+    if (columns.length == 1) {
+        return {sql: `${columns[0]} = ANY(${arrays[0]})`, params}
+    }
+    return {sql: `(${columns.join(', ')}) IN (SELECT * FROM unnest(${arrays.join(', ')}))`, params}
+}
+
+const NUMERIC_TYPES = new Set(['int2', 'int4', 'int8', 'integer', 'smallint', 'bigint', 'numeric', 'decimal'])
+
+/**
+ * Returns true if the column holds integer or decimal numbers.
+ */
+export function isNumericColumn(em: EntityManager, column: ColumnMetadata): boolean {
+    return NUMERIC_TYPES.has(em.connection.driver.normalizeType(column))
+}
+
+/**
+ * Converts entity property value into a value that can be passed to the driver as a bind parameter.
+ */
+export function getPersistentValue(em: EntityManager, column: ColumnMetadata, entity: any): unknown {
+    return em.connection.driver.preparePersistentValue(column.getEntityValue(entity), column)
+}
+
+/**
+ * Returns non-virtual columns set in any of the entities.
+ */
+export function getWrittenColumns(metadata: EntityMetadata, entities: EntityLiteral[]): ColumnMetadata[] {
+    return metadata.columns.filter(
+        (c) => !c.isVirtualProperty && entities.some((e) => c.getEntityValue(e) !== undefined)
+    )
+}
+
+/**
+ * Returns the conflict target and action of upserts overwriting the given columns, without the `ON CONFLICT` keyword.
+ * Versions of existing rows are incremented, so they never move backwards.
+ */
+export function getUpsertConflict(em: EntityManager, metadata: EntityMetadata, columns: ColumnMetadata[]): string {
+    const driver = em.connection.driver
+    const conflict = metadata.primaryColumns.map((c) => driver.escape(c.databaseName)).join(', ')
+    const set = columns
+        .filter((c) => !c.isPrimary && c !== metadata.versionColumn)
+        .map((c) => driver.escape(c.databaseName))
+        .map((name) => `${name} = EXCLUDED.${name}`)
+    if (metadata.versionColumn != null) {
+        const version = driver.escape(metadata.versionColumn.databaseName)
+        const table = driver.escape(metadata.tableName)
+        set.push(`${version} = GREATEST(${table}.${version} + 1, EXCLUDED.${version})`)
+    }
+    return `(${conflict}) ` + (set.length > 0 ? `DO UPDATE SET ${set.join(', ')}` : `DO NOTHING`)
+}
@@ -1,22 +1,132 @@
 import {Logger} from '@subsquid/logger'
-import {unexpectedCase} from '@subsquid/util-internal'
+import {assertNotNull, unexpectedCase} from '@subsquid/util-internal'
 import assert from 'assert'
 import {DataSource, EntityMetadata, EntityTarget, FindOptionsRelations} from 'typeorm'
-import {CacheMap, isSnapshotDirty} from './cacheMap'
+import type {ColumnMetadata} from 'typeorm/metadata/ColumnMetadata'
+import type {RelationMetadata} from 'typeorm/metadata/RelationMetadata'
+import {
+    CacheLimits,
+    CacheMap,
+    CachedEntity,
+    canTrackProperties,
+    getBaselineValue,
+    getChangedColumns,
+    getDirtyColumns,
+} from './cacheMap'
+import {getLinkedIds, getOwningManyToManyRelations} from './junction'
 import {EntityLiteral} from './misc'
+import {getEntityKey} from './entityKey'
 import {getMetadatasInCommitOrder} from './commitOrder'
 
 export enum ChangeType {
     Insert = 'insert',
     Upsert = 'upsert',
+    Update = 'update',
+    Increment = 'increment',
     Delete = 'delete',
+    Link = 'link',
+    Unlink = 'unlink',
 }
 
 export type InsertChangeSet = {type: ChangeType.Insert; metadata: EntityMetadata; entities: EntityLiteral[]}
 export type UpsertChangeSet = {type: ChangeType.Upsert; metadata: EntityMetadata; entities: EntityLiteral[]}
-export type DeleteChangeSet = {type: ChangeType.Delete; metadata: EntityMetadata; ids: string[]}
+export type UpdateChangeSet = {
+    type: ChangeType.Update
+    metadata: EntityMetadata
+    entities: EntityLiteral[]
+    columns: ColumnMetadata[]
+    /**
+     * Expected values of the version column, parallel to `entities`.
+     * Set for entities with a `@VersionColumn`, rows with other versions are not updated.
+     */
+    versions?: unknown[]
+    /**
+     * Values set on all entities by `Store.updateWhere()`, by property path. Values might be raw SQL functions.
+     */
+    patch?: Record<string, unknown>
+}
+/**
+ * Deltas added to numeric columns of rows which are not loaded, see `Store.increment()`
+ */
+export type IncrementChangeSet = {
+    type: ChangeType.Increment
+    metadata: EntityMetadata
+    ids: string[]
+    columns: ColumnMetadata[]
+    /**
+     * Deltas of `columns`, parallel to `ids`
+     */
+    deltas: (number | bigint)[][]
+}
+export type DeleteChangeSet = {
+    type: ChangeType.Delete
+    metadata: EntityMetadata
+    ids: string[]
+    /**
+     * Marker column of soft-deleted entities, rows are updated instead of being deleted
+     */
+    softDeleteColumn?: ColumnMetadata
+}
+
+/**
+ * Junction table rows of a `ManyToMany` relation as `[ownerId, inverseId]` pairs
+ */
+export type LinkChangeSet = {
+    type: ChangeType.Link
+    metadata: EntityMetadata
+    relation: RelationMetadata
+    links: [string, string][]
+}
+export type UnlinkChangeSet = {
+    type: ChangeType.Unlink
+    metadata: EntityMetadata
+    relation: RelationMetadata
+    links: [string, string][]
+    /**
+     * Owners whose links are replaced without a known baseline, all their existing links are deleted
+     */
+    owners?: string[]
+}
+export type JunctionChangeSet = LinkChangeSet | UnlinkChangeSet
 
-export type ChangeSet = InsertChangeSet | UpsertChangeSet | DeleteChangeSet
+export type ChangeSet =
+    | InsertChangeSet
+    | UpsertChangeSet
+    | UpdateChangeSet
+    | IncrementChangeSet
+    | DeleteChangeSet
+    | JunctionChangeSet
+
+/**
+ * How changes of loaded entities are detected:
+ * - `snapshot` compares all columns of every touched entity with the values it was read with;
+ * - `accessors` instruments column properties of loaded entities, so only assigned columns of assigned
+ *   entities are compared. In-place mutations of array, bytes and json values are not detected.
+ *   Entities with embedded entities are compared with snapshots.
+ */
+export type ChangeTrackingMode = 'snapshot' | 'accessors'
+
+/**
+ * Callbacks invoked during sync for entities of a specific type.
+ *
+ * `before*` hooks run before change sets are built, so they may mutate the entity.
+ * Hooks must not perform store operations themselves.
+ */
+export interface EntityHooks<E extends EntityLiteral = any> {
+    beforeInsert?(entity: E, type: ChangeType.Insert): void | Promise<void>
+    /**
+     * Called for explicit upserts and for updates of changed loaded entities.
+     */
+    beforeUpsert?(entity: E, type: ChangeType.Upsert | ChangeType.Update): void | Promise<void>
+    /**
+     * Called with the entity key, see {@link getEntityKey}.
+     */
+    beforeDelete?(id: string, type: ChangeType.Delete): void | Promise<void>
+    /**
+     * Called after changes are written, with the entity key for deletes.
+     */
+    afterSync?(entity: E | string, type: ChangeType): void | Promise<void>
+}
 
 export class StateManager {
     protected connection: DataSource
@@ -26,11 +136,35 @@ export class StateManager {
     protected commitOrderMap: Map<EntityMetadata, number>
     protected logger?: Logger
     protected touchedIds: Map<EntityMetadata, Set<string>> = new Map()
+    protected cacheLimits?: CacheLimits
+    protected hotBlock?: number
+    protected hotBlockWrites: Map<number, Map<EntityMetadata, Set<string>>> = new Map()
+    protected hooks: Map<EntityMetadata, EntityHooks[]> = new Map()
+    protected softDeletes: Map<EntityMetadata, ColumnMetadata> = new Map()
+    protected historyEntities: Set<EntityMetadata> = new Set()
+    protected increments: Map<EntityMetadata, Map<string, Map<ColumnMetadata, number | bigint>>> = new Map()
+    protected changeTracking: ChangeTrackingMode
+    protected changedIds: Map<EntityMetadata, Set<string>> = new Map()
 
-    constructor({connection, logger}: {connection: DataSource; logger?: Logger}) {
+    constructor({
+        connection,
+        logger,
+        cacheLimits,
+        changeTracking,
+    }: {
+        connection: DataSource
+        logger?: Logger
+        cacheLimits?: CacheLimits
+        changeTracking?: ChangeTrackingMode
+    }) {
         this.connection = connection
         this.logger = logger
-        this.cacheMap = new CacheMap(this.logger?.child('cache'))
+        this.cacheLimits = cacheLimits
+        this.changeTracking = changeTracking ?? 'snapshot'
+        this.cacheMap = new CacheMap(
+            this.logger?.child('cache'),
+            this.changeTracking === 'accessors' ? (metadata, id) => this.markChanged(metadata, id) : undefined
+        )
         this.stateMap = new Map()
         this.commitOrder = getMetadatasInCommitOrder(connection)
         this.commitOrderMap = new Map()
@@ -39,6 +173,47 @@ export class StateManager {
         })
     }
 
+    addHooks<E extends EntityLiteral>(target: EntityTarget<E>, hooks: EntityHooks<E>): void {
+        const metadata = this.connection.getMetadata(target)
+        let list = this.hooks.get(metadata)
+        if (list == null) {
+            list = []
+            this.hooks.set(metadata, list)
+        }
+        list.push(hooks)
+    }
+
+    /**
+     * Makes deletes of the given entity type set the marker property instead of deleting rows.
+     */
+    setSoftDelete(target: EntityTarget<any>, property: string): void {
+        const metadata = this.connection.getMetadata(target)
+        const column = metadata.findColumnWithPropertyPath(property)
+        assert(column != null && column.relationMetadata == null, `${metadata.name}.${property} is not a column`)
+        assert(column.isNullable, `soft delete column ${metadata.name}.${property} must be nullable`)
+        this.softDeletes.set(metadata, column)
+    }
+
+    getSoftDeleteColumn(target: EntityTarget<any>): ColumnMetadata | undefined {
+        return this.softDeletes.get(this.connection.getMetadata(target))
+    }
+
+    /**
+     * Makes every sync of the given entity type record new row versions into its history table.
+     */
+    setHistory(target: EntityTarget<any>): void {
+        const metadata = this.connection.getMetadata(target)
+        this.historyEntities.add(metadata)
+    }
+
+    /**
+     * Tells whether history is recorded for the given entity type, or for any type if no target is given.
+     */
+    hasHistory(target?: EntityTarget<any>): boolean {
+        if (target == null) return this.historyEntities.size > 0
+        return this.historyEntities.has(this.connection.getMetadata(target))
+    }
+
     touchEntity(entity: EntityLiteral): void {
         const metadata = this.connection.getMetadata(entity.constructor)
         let set = this.touchedIds.get(metadata)
@@ -46,11 +221,11 @@ export class StateManager {
             set = new Set()
             this.touchedIds.set(metadata, set)
         }
-        set.add(entity.id)
+        set.add(getEntityKey(metadata, entity))
     }
 
     needsSync(): boolean {
-        if (this.stateMap.size > 0) return true
+        if (this.stateMap.size > 0 || this.increments.size > 0 || this.changedIds.size > 0) return true
         for (const set of this.touchedIds.values()) {
             if (set.size > 0) return true
         }
@@ -86,7 +261,7 @@ export class StateManager {
                     } else {
                         const cachedInverseEntity = this.get(
                             relation.inverseEntityMetadata.target,
-                            inverseEntityMock.id,
+                            getEntityKey(relation.inverseEntityMetadata, inverseEntityMock),
                             typeof inverseMask === 'boolean' ? undefined : inverseMask
                         )
 
@@ -103,19 +278,51 @@ export class StateManager {
         }
     }
 
+    /**
+     * Looks up a cached entity by values of unique columns, see {@link get} for the meaning of the result.
+     */
+    getBy<E extends EntityLiteral>(
+        target: EntityTarget<any>,
+        where: Record<string, unknown>,
+        relationMask?: FindOptionsRelations<any>
+    ): E | null | undefined {
+        const metadata = this.connection.getMetadata(target)
+        const {columns, values} = getUniqueColumns(metadata, where)
+        const cached = this.cacheMap.getBy(metadata, columns, values)
+
+        if (cached == null) {
+            return undefined
+        } else if (cached.value == null) {
+            return null
+        } else {
+            return this.get(target, getEntityKey(metadata, cached.value), relationMask)
+        }
+    }
+
+    /**
+     * Records that there is no entity with the given values of unique columns.
+     */
+    settleBy(target: EntityTarget<any>, where: Record<string, unknown>): void {
+        const metadata = this.connection.getMetadata(target)
+        const {columns, values} = getUniqueColumns(metadata, where)
+        this.cacheMap.settleBy(metadata, columns, values)
+    }
+
     insert(entity: EntityLiteral): void {
         const metadata = this.connection.getMetadata(entity.constructor)
-        const prevType = this.getState(metadata, entity.id)
+        const id = getEntityKey(metadata, entity)
+        const prevType = this.getState(metadata, id)
         switch (prevType) {
             case undefined:
-                this.setState(metadata, entity.id, ChangeType.Insert)
+                this.setState(metadata, id, ChangeType.Insert)
                 this.cacheMap.add(metadata, entity)
                 break
             case ChangeType.Insert:
             case ChangeType.Upsert:
-                throw new Error(`Entity ${metadata.name} ${entity.id} is already marked as ${prevType}`)
+            case ChangeType.Update:
+                throw new Error(`Entity ${metadata.name} ${id} is already marked as ${prevType}`)
             case ChangeType.Delete:
-                this.setState(metadata, entity.id, ChangeType.Upsert)
+                this.setState(metadata, id, ChangeType.Upsert)
                 this.cacheMap.add(metadata, entity)
                 break
             default:
@@ -125,18 +332,20 @@ export class StateManager {
 
     upsert(entity: EntityLiteral): void {
         const metadata = this.connection.getMetadata(entity.constructor)
-        const prevType = this.getState(metadata, entity.id)
+        const id = getEntityKey(metadata, entity)
+        const prevType = this.getState(metadata, id)
         switch (prevType) {
             case undefined:
             case ChangeType.Upsert:
-                this.setState(metadata, entity.id, ChangeType.Upsert)
+            case ChangeType.Update:
+                this.setState(metadata, id, ChangeType.Upsert)
                 this.cacheMap.add(metadata, entity, {overwrite: true})
                 break
             case ChangeType.Insert:
                 this.cacheMap.add(metadata, entity, {overwrite: true})
                 break
             case ChangeType.Delete:
-                this.setState(metadata, entity.id, ChangeType.Upsert)
+                this.setState(metadata, id, ChangeType.Upsert)
                 this.cacheMap.add(metadata, entity, {overwrite: true})
                 break
             default:
@@ -144,12 +353,17 @@ export class StateManager {
         }
     }
 
+    /**
+     * Marks the entity as deleted. Soft-deleted entities are treated as non-existent
+     * by the cache the same way as deleted ones.
+     */
     delete(target: EntityTarget<any>, id: string): void {
         const metadata = this.connection.getMetadata(target)
         const prevType = this.getState(metadata, id)
         switch (prevType) {
             case undefined:
             case ChangeType.Upsert:
+            case ChangeType.Update:
             case ChangeType.Insert:
                 this.setState(metadata, id, ChangeType.Delete)
                 this.cacheMap.delete(metadata, id)
@@ -162,12 +376,94 @@ export class StateManager {
         }
     }
 
+    /**
+     * Adds deltas to numeric columns of the entity.
+     *
+     * Cached entities are changed in place, increments of other entities are accumulated
+     * and written as increment change sets. Pending increments are dropped when the entity
+     * is inserted, upserted or deleted afterwards, the same way the DB would overwrite them.
+     */
+    increment(target: EntityTarget<any>, id: string, deltas: Record<string, number | bigint>): void {
+        const metadata = this.connection.getMetadata(target)
+        const columns = Object.entries(deltas).map(([property, delta]) => {
+            const column = metadata.findColumnWithPropertyPath(property)
+            assert(
+                column != null && column.relationMetadata == null && !column.isPrimary,
+                `${metadata.name}.${property} is not a column`
+            )
+            return [column, delta] as const
+        })
+
+        const cached = this.cacheMap.get(metadata, id)
+        if (cached != null) {
+            assert(cached.value != null, `unable to increment non-existent entity ${metadata.name} ${id}`)
+            for (const [column, delta] of columns) {
+                column.setEntityValue(cached.value, addDelta(column.getEntityValue(cached.value), delta))
+            }
+            this.touchEntity(cached.value)
+            return
+        }
+
+        let pending = this.increments.get(metadata)
+        if (pending == null) {
+            pending = new Map()
+            this.increments.set(metadata, pending)
+        }
+        let entityDeltas = pending.get(id)
+        if (entityDeltas == null) {
+            entityDeltas = new Map()
+            pending.set(id, entityDeltas)
+        }
+        for (const [column, delta] of columns) {
+            entityDeltas.set(column, addDelta(entityDeltas.get(column), delta))
+        }
+        this.logger?.debug(`entity ${metadata.name} ${id} incremented`)
+    }
+
+    /**
+     * Brings the cache in line with a change set written by a set-based query,
+     * cached entities are patched or marked as deleted.
+     * Entities patched with raw SQL values are dropped from the cache, as only the DB knows their new values.
+     */
+    reconcile(cs: UpdateChangeSet | DeleteChangeSet, patch?: Record<string, unknown>): void {
+        if (cs.type === ChangeType.Delete) {
+            for (const id of cs.ids) {
+                if (!this.cacheMap.has(cs.metadata, id)) continue
+                this.cacheMap.delete(cs.metadata, id)
+            }
+        } else {
+            const values = cs.columns.map((c) => c.getEntityValue(patch ?? {}))
+            const computed = values.some((value) => typeof value === 'function')
+            // the UPDATE query builder increments versions unless they are patched
+            const versionColumn = cs.metadata.versionColumn
+            const bumpVersion = versionColumn != null && !cs.columns.includes(versionColumn)
+            for (const e of cs.entities) {
+                const id = getEntityKey(cs.metadata, e)
+                const entity = this.cacheMap.get(cs.metadata, id)?.value
+                if (entity == null) continue
+                if (computed) {
+                    this.cacheMap.remove(cs.metadata, id)
+                    continue
+                }
+                cs.columns.forEach((c, i) => c.setEntityValue(entity, values[i]))
+                if (bumpVersion) {
+                    versionColumn!.setEntityValue(entity, Number(versionColumn!.getEntityValue(entity)) + 1)
+                }
+                this.cacheMap.syncBaselineAfterWrite(cs.metadata, entity)
+            }
+        }
+
+        if (this.hotBlock != null) {
+            this.recordHotBlockWrites(this.hotBlock, [cs])
+        }
+    }
+
     persist(target: EntityTarget<any>, entity: EntityLiteral | string) {
         const metadata = this.connection.getMetadata(target)
         if (typeof entity === 'string') {
             this.cacheMap.settle(metadata, entity)
         } else {
-            this.getChanges(metadata).delete(entity.id)
+            this.getChanges(metadata).delete(getEntityKey(metadata, entity))
             this.cacheMap.add(metadata, entity, {fromQuery: true})
         }
     }
@@ -197,22 +493,125 @@ export class StateManager {
         this.stateMap.clear()
         this.cacheMap.clear()
         this.touchedIds.clear()
+        this.changedIds.clear()
+        this.hotBlockWrites.clear()
+        this.increments.clear()
     }
 
+    /**
+     * Drops cached entities of the given type, e.g. after they were modified by a raw query.
+     * Entities with pending changes are kept.
+     */
+    invalidate(target: EntityTarget<any>): void {
+        const metadata = this.connection.getMetadata(target)
+        const pending = this.stateMap.get(metadata)
+        if (pending == null || pending.size == 0) {
+            this.cacheMap.clear(metadata)
+            this.touchedIds.delete(metadata)
+            this.changedIds.delete(metadata)
+        } else {
+            for (const id of this.cacheMap.keys(metadata)) {
+                if (pending.has(id)) continue
+                this.cacheMap.remove(metadata, id)
+                this.touchedIds.get(metadata)?.delete(id)
+                this.changedIds.get(metadata)?.delete(id)
+            }
+        }
+    }
+
+    /**
+     * Changes synced until the next call are recorded as made in the unfinalized block of the given height.
+     */
+    setHotBlock(height: number | undefined): void {
+        this.hotBlock = height
+    }
+
+    /**
+     * Evicts entities written in the rolled back block from the cache, so they are re-read from the DB.
+     */
+    rollbackBlock(height: number): void {
+        const writes = this.hotBlockWrites.get(height)
+        if (writes == null) return
+
+        for (const [metadata, ids] of writes) {
+            for (const id of ids) {
+                this.cacheMap.remove(metadata, id)
+            }
+        }
+        this.hotBlockWrites.delete(height)
+        this.logger?.debug(`evicted entities written in rolled back block ${height}`)
+    }
+
+    /**
+     * Forgets writes of blocks which are final now.
+     */
+    finalizeBlocks(height: number): void {
+        for (const blockHeight of this.hotBlockWrites.keys()) {
+            if (blockHeight <= height) {
+                this.hotBlockWrites.delete(blockHeight)
+            }
+        }
+    }
+
+    /**
+     * Keeps the cache for the next batch after all changes are synced.
+     *
+     * Least recently used entries above the cache limits are evicted, except the ones
+     * with pending changes or read in the committed batch. Touched ids are forgotten afterwards,
+     * so entities kept from earlier batches are checked for changes only once they are read again.
+     */
+    commit(): void {
+        if (this.cacheLimits != null) {
+            this.cacheMap.evict(this.cacheLimits, (metadata, id) => {
+                return !!this.stateMap.get(metadata)?.has(id) || !!this.touchedIds.get(metadata)?.has(id)
+            })
+        }
+        this.touchedIds.clear()
+    }
+
+    /**
+     * Touched rows are known to exist in the DB, so dirty ones are written
+     * with a column-level `UPDATE` of changed columns only.
+     */
     private applyAutoUpsertForTouched(): void {
-        for (const [metadata, ids] of this.touchedIds) {
+        // with tracked properties only assigned entities have to be checked
+        const candidates =
+            this.changeTracking === 'accessors'
+                ? [...this.changedIds, ...[...this.touchedIds].filter(([metadata]) => !canTrackProperties(metadata))]
+                : this.touchedIds
+        for (const [metadata, ids] of candidates) {
             for (const id of ids) {
                 const cached = this.cacheMap.get(metadata, id)
                 if (cached?.value == null) continue
                 if (!cached.loadedFromDb || cached.baseline == null) continue
-                if (this.getState(metadata, id) === ChangeType.Delete) continue
-                if (!isSnapshotDirty(metadata, cached.value, cached.baseline)) continue
-                this.upsert(cached.value)
+                if (this.getState(metadata, id) != null) continue
+                if (this.getUpdatedColumns(metadata, cached).length == 0) continue
+                this.setState(metadata, id, ChangeType.Update)
             }
         }
-        // touchedIds is intentionally NOT cleared here. Clearing happens only in reset()
+        // touchedIds is intentionally NOT cleared here, but in reset() and commit() at the end of a batch,
         // so that mutations made after an intermediate sync() (triggered by a read) are
-        // still detected when the final flush() runs.
+        // still detected when the final flush() runs. Assigned entities are either marked
+        // for update now or equal to their baseline, and later assignments are reported again.
+        this.changedIds.clear()
+    }
+
+    private getUpdatedColumns(metadata: EntityMetadata, cached: CachedEntity): ColumnMetadata[] {
+        const entity = assertNotNull(cached.value)
+        const baseline = assertNotNull(cached.baseline)
+        if (this.changeTracking === 'accessors' && canTrackProperties(metadata)) {
+            return cached.changedColumns == null ? [] : getChangedColumns(metadata, entity, baseline, cached.changedColumns)
+        }
+        return getDirtyColumns(metadata, entity, baseline)
+    }
+
+    private markChanged(metadata: EntityMetadata, id: string): void {
+        let ids = this.changedIds.get(metadata)
+        if (ids == null) {
+            ids = new Set()
+            this.changedIds.set(metadata, ids)
+        }
+        ids.add(id)
     }
 
     async performUpdate(cb: (cs: ChangeSet[]) => Promise<void>) {
@@ -220,12 +619,26 @@ export class StateManager {
 
         this.applyAutoUpsertForTouched()
 
-        if (this.stateMap.size === 0) return
+        // hooks may still change relations
+        await this.runBeforeHooks()
+
+        const linkChanges = this.collectLinkChanges()
+
+        if (
+            this.stateMap.size === 0 &&
+            this.increments.size === 0 &&
+            linkChanges.links.length === 0 &&
+            linkChanges.unlinks.length === 0
+        ) {
+            return
+        }
 
         type PendingChanges = {
             metadata: EntityMetadata
             inserts: EntityLiteral[]
             upserts: EntityLiteral[]
+            updates: Map<string, {columns: ColumnMetadata[]; entities: EntityLiteral[]; versions: unknown[]}>
+            increments: Map<string, {columns: ColumnMetadata[]; ids: string[]; deltas: (number | bigint)[][]}>
             deletes: string[]
             extraUpserts: EntityLiteral[]
         }
@@ -233,23 +646,39 @@ export class StateManager {
         const pending: PendingChanges[] = []
 
         for (const metadata of this.commitOrder) {
-            const entityChanges = this.stateMap.get(metadata)
-            if (entityChanges == null || entityChanges.size == 0) continue
+            const entityChanges = this.stateMap.get(metadata) ?? new Map<string, ChangeType>()
+            const entityIncrements = this.increments.get(metadata) ?? new Map<string, Map<ColumnMetadata, number | bigint>>()
+            if (entityChanges.size == 0 && entityIncrements.size == 0) continue
 
             const changes: PendingChanges = {
                 metadata,
                 inserts: [],
                 upserts: [],
+                updates: new Map(),
+                increments: new Map(),
                 deletes: [],
                 extraUpserts: [],
             }
 
+            for (const [id, deltas] of entityIncrements) {
+                const columns = [...deltas.keys()]
+                const key = columns.map((c) => c.databaseName).join(',')
+                let group = changes.increments.get(key)
+                if (group == null) {
+                    group = {columns, ids: [], deltas: []}
+                    changes.increments.set(key, group)
+                }
+                group.ids.push(id)
+                group.deltas.push([...deltas.values()])
+            }
+
             for (const [id, type] of entityChanges) {
                 const cached = this.cacheMap.get(metadata, id)
 
                 switch (type) {
                     case ChangeType.Insert: {
                         assert(cached?.value != null, `unable to insert entity ${metadata.name} ${id}`)
+                        initVersion(metadata, cached.value)
                         const {entity, extraUpsert} = this.processEntityRelations(cached.value, ChangeType.Insert)
 
                         changes.inserts.push(entity)
@@ -260,6 +689,7 @@ export class StateManager {
                     }
                     case ChangeType.Upsert: {
                         assert(cached?.value != null, `unable to upsert entity ${metadata.name} ${id}`)
+                        initVersion(metadata, cached.value)
                         const {entity, extraUpsert} = this.processEntityRelations(cached.value, ChangeType.Upsert)
 
                         changes.upserts.push(entity)
@@ -268,6 +698,28 @@ export class StateManager {
                         }
                         break
                     }
+                    case ChangeType.Update: {
+                        assert(cached?.value != null && cached.baseline != null, `unable to update entity ${metadata.name} ${id}`)
+                        const columns = this.getUpdatedColumns(metadata, cached)
+                        if (columns.length == 0) {
+                            // nothing is written, so after-sync hooks are not invoked either
+                            entityChanges.delete(id)
+                            break
+                        }
+
+                        // group entities by identical column sets, so each group is written by a single statement
+                        const key = columns.map((c) => c.databaseName).join(',')
+                        let group = changes.updates.get(key)
+                        if (group == null) {
+                            group = {columns, entities: [], versions: []}
+                            changes.updates.set(key, group)
+                        }
+                        group.entities.push(cached.value)
+                        if (metadata.versionColumn != null) {
+                            group.versions.push(getBaselineValue(metadata, cached.baseline, metadata.versionColumn))
+                        }
+                        break
+                    }
                     case ChangeType.Delete: {
                         changes.deletes.push(id)
                         break
@@ -290,8 +742,31 @@ export class StateManager {
             }
         }
         for (const c of pending) {
+            for (const {columns, entities, versions} of c.updates.values()) {
+                changeSets.push({
+                    type: ChangeType.Update,
+                    metadata: c.metadata,
+                    entities,
+                    columns,
+                    versions: c.metadata.versionColumn == null ? undefined : versions,
+                })
+            }
+        }
+        for (const c of pending) {
+            for (const {columns, ids, deltas} of c.increments.values()) {
+                changeSets.push({type: ChangeType.Increment, metadata: c.metadata, ids, columns, deltas})
+            }
+        }
+        changeSets.push(...linkChanges.unlinks)
+        // dependent entities have to be deleted before the ones they reference
+        for (const c of [...pending].reverse()) {
             if (c.deletes.length > 0) {
-                changeSets.push({type: ChangeType.Delete, metadata: c.metadata, ids: c.deletes})
+                changeSets.push({
+                    type: ChangeType.Delete,
+                    metadata: c.metadata,
+                    ids: c.deletes,
+                    softDeleteColumn: this.softDeletes.get(c.metadata),
+                })
             }
         }
         for (const c of pending) {
@@ -299,18 +774,178 @@ export class StateManager {
                 changeSets.push({type: ChangeType.Upsert, metadata: c.metadata, entities: c.extraUpserts})
             }
         }
+        changeSets.push(...linkChanges.links)
 
+        const synced = this.getHookedChanges()
         this.stateMap.clear()
+        this.increments.clear()
 
         await cb(changeSets)
 
         for (const cs of changeSets) {
-            if (cs.type === ChangeType.Insert || cs.type === ChangeType.Upsert) {
+            if (cs.type === ChangeType.Insert || cs.type === ChangeType.Upsert || cs.type === ChangeType.Update) {
                 for (const e of cs.entities) {
                     this.cacheMap.syncBaselineAfterWrite(this.connection.getMetadata(e.constructor), e)
                 }
             }
         }
+
+        for (const [cached, relation, ids] of linkChanges.baselines) {
+            cached.links = (cached.links ?? new Map()).set(relation, ids)
+        }
+
+        if (this.hotBlock != null) {
+            this.recordHotBlockWrites(this.hotBlock, changeSets)
+        }
+
+        await this.runAfterHooks(synced)
+    }
+
+    /**
+     * Diffs owning `ManyToMany` relations of written and touched entities against the links
+     * known from the last DB read. Relations which are not loaded are left untouched,
+     * while loaded ones without a known baseline replace all existing links.
+     */
+    private collectLinkChanges() {
+        const unlinks: UnlinkChangeSet[] = []
+        const links: LinkChangeSet[] = []
+        const baselines: [CachedEntity, RelationMetadata, Set<string>][] = []
+
+        for (const metadata of this.commitOrder) {
+            const relations = getOwningManyToManyRelations(metadata)
+            if (relations.length == 0) continue
+
+            const states = this.stateMap.get(metadata)
+            const ids = new Set([...(states?.keys() ?? []), ...(this.touchedIds.get(metadata) ?? [])])
+
+            for (const relation of relations) {
+                const added: [string, string][] = []
+                const removed: [string, string][] = []
+                const owners: string[] = []
+
+                for (const id of ids) {
+                    const state = states?.get(id)
+                    if (state === ChangeType.Delete) continue
+
+                    const cached = this.cacheMap.get(metadata, id)
+                    if (cached?.value == null) continue
+
+                    const current = getLinkedIds(relation, cached.value)
+                    if (current == null) continue
+
+                    let baseline = state === ChangeType.Insert ? new Set<string>() : cached.links?.get(relation)
+                    if (baseline == null) {
+                        owners.push(id)
+                        baseline = new Set()
+                    }
+
+                    for (const linkedId of current) {
+                        if (baseline.has(linkedId)) continue
+                        added.push([id, linkedId])
+                    }
+                    for (const linkedId of baseline) {
+                        if (current.has(linkedId)) continue
+                        removed.push([id, linkedId])
+                    }
+                    baselines.push([cached, relation, current])
+                }
+
+                const junction = assertNotNull(relation.junctionEntityMetadata)
+                if (removed.length > 0 || owners.length > 0) {
+                    unlinks.push({type: ChangeType.Unlink, metadata: junction, relation, links: removed, owners})
+                }
+                if (added.length > 0) {
+                    links.push({type: ChangeType.Link, metadata: junction, relation, links: added})
+                }
+            }
+        }
+
+        return {unlinks, links, baselines}
+    }
+
+    private async runBeforeHooks(): Promise<void> {
+        if (this.hooks.size === 0) return
+
+        for (const metadata of this.commitOrder) {
+            const hooks = this.hooks.get(metadata)
+            const changes = this.stateMap.get(metadata)
+            if (hooks == null || changes == null) continue
+
+            for (const [id, type] of changes) {
+                const entity = this.cacheMap.get(metadata, id)?.value
+                for (const h of hooks) {
+                    switch (type) {
+                        case ChangeType.Insert:
+                            await h.beforeInsert?.(assertNotNull(entity), type)
+                            break
+                        case ChangeType.Upsert:
+                        case ChangeType.Update:
+                            await h.beforeUpsert?.(assertNotNull(entity), type)
+                            break
+                        case ChangeType.Delete:
+                            await h.beforeDelete?.(id, type)
+                            break
+                        default:
+                            throw unexpectedCase(type)
+                    }
+                }
+            }
+        }
+    }
+
+    private getHookedChanges(): [EntityMetadata, string, ChangeType][] {
+        const changes: [EntityMetadata, string, ChangeType][] = []
+        for (const metadata of this.commitOrder) {
+            if (!this.hooks.get(metadata)?.some((h) => h.afterSync != null)) continue
+            for (const [id, type] of this.stateMap.get(metadata) ?? []) {
+                changes.push([metadata, id, type])
+            }
+        }
+        return changes
+    }
+
+    private async runAfterHooks(changes: [EntityMetadata, string, ChangeType][]): Promise<void> {
+        for (const [metadata, id, type] of changes) {
+            const entity = type === ChangeType.Delete ? id : assertNotNull(this.cacheMap.get(metadata, id)?.value)
+            for (const h of this.hooks.get(metadata) ?? []) {
+                await h.afterSync?.(entity, type)
+            }
+        }
+    }
+
+    private recordHotBlockWrites(height: number, changeSets: ChangeSet[]) {
+        let writes = this.hotBlockWrites.get(height)
+        if (writes == null) {
+            writes = new Map()
+            this.hotBlockWrites.set(height, writes)
+        }
+
+        for (const cs of changeSets) {
+            // owners hold linked entities, so they have to be re-read instead of junction rows
+            const metadata =
+                cs.type === ChangeType.Link || cs.type === ChangeType.Unlink ? cs.relation.entityMetadata : cs.metadata
+            let ids = writes.get(metadata)
+            if (ids == null) {
+                ids = new Set()
+                writes.set(metadata, ids)
+            }
+
+            switch (cs.type) {
+                case ChangeType.Increment:
+                case ChangeType.Delete:
+                    cs.ids.forEach((id) => ids.add(id))
+                    break
+                case ChangeType.Link:
+                    cs.links.forEach(([ownerId]) => ids.add(ownerId))
+                    break
+                case ChangeType.Unlink:
+                    cs.links.forEach(([ownerId]) => ids.add(ownerId))
+                    cs.owners?.forEach((ownerId) => ids.add(ownerId))
+                    break
+                default:
+                    cs.entities.forEach((e) => ids.add(getEntityKey(cs.metadata, e)))
+            }
+        }
     }
 
     private processEntityRelations(entity: EntityLiteral, changeType: ChangeType) {
@@ -321,18 +956,21 @@ export class StateManager {
         let extraUpsert: EntityLiteral | undefined
 
         for (const relation of metadata.relations) {
-            if (relation.foreignKeys.length == 0) continue
+            // junction rows are written separately after entities
+            if (relation.foreignKeys.length == 0 || relation.isManyToMany) continue
 
             const inverseMetadata = relation.inverseEntityMetadata
             if (metadata === inverseMetadata) continue
 
             const inverseEntity = relation.getEntityValue(entity)
-            if (inverseEntity == null || inverseEntity.id === entity.id) continue
+            if (inverseEntity == null) continue
+            const inverseId = getEntityKey(inverseMetadata, inverseEntity)
+            if (inverseId === getEntityKey(metadata, entity)) continue
 
             const invCommitOrderIndex = this.commitOrderMap.get(inverseMetadata)!
 
-            const isInverseInserted = this.isInserted(inverseMetadata.target, inverseEntity.id)
-            const isInverseUpserted = this.isUpserted(inverseMetadata.target, inverseEntity.id)
+            const isInverseInserted = this.isInserted(inverseMetadata.target, inverseId)
+            const isInverseUpserted = this.isUpserted(inverseMetadata.target, inverseId)
 
             let shouldProcess = false
             if (changeType === ChangeType.Insert) {
@@ -355,6 +993,10 @@ export class StateManager {
     }
 
     private setState(metadata: EntityMetadata, id: string, type: ChangeType): this {
+        const increments = this.increments.get(metadata)
+        if (increments?.delete(id) && increments.size == 0) {
+            this.increments.delete(metadata)
+        }
         this.getChanges(metadata).set(id, type)
         this.logger?.debug(`entity ${metadata.name} ${id} marked as ${type}`)
         return this
@@ -373,3 +1015,40 @@ export class StateManager {
         return map
     }
 }
+
+function addDelta(value: unknown, delta: number | bigint): number | bigint {
+    const current = value ?? 0
+    if (typeof current === 'bigint' || typeof delta === 'bigint') {
+        return BigInt(current as number | bigint) + BigInt(delta)
+    }
+    assert(typeof current === 'number', `unable to increment non-numeric value`)
+    return current + delta
+}
+
+function getUniqueColumns(metadata: EntityMetadata, where: Record<string, unknown>) {
+    const properties = Object.keys(where).sort()
+    assert(properties.length > 0, `no columns to look up entity ${metadata.name} by`)
+
+    const columns = properties.map((property) => {
+        const column = metadata.findColumnWithPropertyPath(property)
+        assert(column != null && column.relationMetadata == null, `${metadata.name}.${property} is not a column`)
+        return column
+    })
+    const values = properties.map((property) => {
+        const value = where[property]
+        assert(value != null, `${metadata.name}.${property} must not be null`)
+        return value
+    })
+
+    return {columns, values}
+}
+
+/**
+ * New versioned entities start with version 1, as with TypeORM's `save`.
+ */
+function initVersion(metadata: EntityMetadata, entity: EntityLiteral) {
+    const column = metadata.versionColumn
+    if (column != null && column.getEntityValue(entity) == null) {
+        column.setEntityValue(entity, 1)
+    }
+}